@@ -0,0 +1,734 @@
+import { Mistral } from "@mistralai/mistralai";
+import type {
+  AssistantMessage,
+  ChatCompletionStreamRequest,
+  ContentChunk,
+  SystemMessage,
+  ToolMessage,
+  UserMessage,
+} from "@mistralai/mistralai/models/components";
+import { recordFileSnapshot, type Checkpoint } from "./checkpoints.js";
+import {
+  compactConversation,
+  estimateTokens,
+  isContextLengthError,
+  mapHistoryLength,
+  shouldCompact,
+  type CompactionResult,
+} from "./compaction.js";
+import { computeDiff, type DiffHunk } from "./diff.js";
+import { getModelClient, getModelConfig, type ModelConfig } from "./models.js";
+import {
+  requiresPermission,
+  type CanUseTool,
+  type PermissionRequest,
+} from "./permissions.js";
+import { formatPlanPrompt, getPlan, savePlan, type Plan } from "./plan.js";
+import { appendSessionEntry, type Session } from "./session.js";
+import {
+  formatTodoReminder,
+  formatTodosPrompt,
+  getTodos,
+  hasUnfinishedTodos,
+  type TodoItem,
+} from "./todos.js";
+import { loadSettings } from "./settings.js";
+import {
+  getTool,
+  getTools,
+  parseToolArguments,
+  toToolSchema,
+  type ToolContext,
+} from "./tools.js";
+import {
+  addUsage,
+  emptyUsage,
+  formatCost,
+  isOverBudget,
+  recordUsage,
+  type TokenUsage,
+  type UsageStore,
+} from "./usage.js";
+
+type ChatMessage =
+  | (SystemMessage & { role: "system" })
+  | (UserMessage & { role: "user" })
+  | (AssistantMessage & { role: "assistant" })
+  | (ToolMessage & { role: "tool" });
+
+export type ConversationMessage = {
+  role: "user" | "assistant" | "tool";
+  content: string;
+  toolCallId?: string;
+  // Data URLs of images attached to a tool result
+  images?: string[];
+  toolCalls?: Array<{
+    id: string;
+    type: string;
+    function: {
+      name: string;
+      arguments: string;
+    };
+  }>;
+};
+
+export type AgentEvent =
+  | {
+      type: "tool_call";
+      toolCallId: string;
+      name: string;
+      arguments: string;
+    }
+  | {
+      type: "tool_result";
+      toolCallId: string;
+      name: string;
+      content: string;
+    }
+  | {
+      type: "tool_output";
+      toolCallId: string;
+      name: string;
+      content: string;
+    }
+  | {
+      type: "tool_error";
+      toolCallId?: string;
+      name: string;
+      message: string;
+    }
+  | {
+      type: "file_change";
+      toolCallId: string;
+      filePath: string;
+      isNewFile: boolean;
+      hunks: DiffHunk[];
+    }
+  | {
+      type: "todo_update";
+      todos: TodoItem[];
+    }
+  | {
+      type: "text_delta";
+      content: string;
+    }
+  | ({ type: "compaction" } & CompactionResult)
+  | {
+      type: "plan_update";
+      plan: Plan;
+      // Set when a single step's progress changed
+      step?: number;
+    }
+  | {
+      type: "assistant_message";
+      content: string;
+    };
+
+export type AgentTurnStatus =
+  | "success"
+  | "error"
+  | "max_iterations"
+  | "budget_exceeded";
+
+export type AgentTurnResult = {
+  status: AgentTurnStatus;
+  response: string;
+  iterations: number;
+  // Tokens used by this turn's model requests
+  usage: TokenUsage;
+  error?: string;
+};
+
+export type AgentTurnOptions = {
+  client: Mistral;
+  systemPrompt: string;
+  conversationHistory: ConversationMessage[];
+  session: Session;
+  userMessage: string;
+  planMode: boolean;
+  // Overrides the session's model for this turn
+  model?: string;
+  canUseTool?: CanUseTool;
+  // Receives a snapshot of every file before the turn first modifies it
+  checkpoint?: Checkpoint;
+  // Session-wide token usage; the turn stops once its budget is spent
+  usageStore?: UsageStore;
+  onEvent?: (event: AgentEvent) => void;
+};
+
+const PLAN_MODE_PROMPT =
+  "\n\n[PLAN MODE ACTIVE] You are currently in PLAN MODE. This means:\n- You MUST NOT make any changes to files (do not use edit_file or multi_edit tools)\n- You MUST NOT execute any commands (do not use run_command tool)\n- You CAN read files (read_file), list directories (list_directory) and search (grep, glob) to understand the codebase\n- Your goal is to create a detailed, step-by-step plan for the user\n- Present the plan clearly with numbered steps and record it with the write_plan tool so the user can approve all or some of the steps\n- Wait for user approval before implementing anything\n- If the user suggests changes to the plan, update the plan accordingly";
+
+const MAX_ITERATIONS = 10;
+const MAX_PARALLEL_TOOL_CALLS = 4;
+// Tool-calling iterations without a todo_write before the model is reminded
+// of its unfinished todo list
+const TODO_REMINDER_INTERVAL = 3;
+
+function toChatMessage(msg: ConversationMessage): ChatMessage {
+  if (msg.role === "tool" && msg.toolCallId) {
+    return {
+      role: "tool",
+      content: msg.images?.length
+        ? [
+            { type: "text", text: msg.content },
+            ...msg.images.map(
+              (url): ContentChunk => ({ type: "image_url", imageUrl: url })
+            ),
+          ]
+        : msg.content,
+      toolCallId: msg.toolCallId,
+    };
+  }
+  if (msg.toolCalls && msg.toolCalls.length > 0) {
+    return {
+      role: "assistant",
+      content: msg.content,
+      toolCalls: msg.toolCalls.map((tc) => ({
+        id: tc.id,
+        type: tc.type as "function",
+        function: {
+          name: tc.function.name,
+          arguments:
+            typeof tc.function.arguments === "string"
+              ? tc.function.arguments
+              : JSON.stringify(tc.function.arguments),
+        },
+      })),
+    };
+  }
+  return {
+    role: msg.role as "user" | "assistant",
+    content: msg.content,
+  };
+}
+
+type StreamedToolCall = {
+  id: string;
+  type: string;
+  name: string;
+  arguments: string;
+};
+
+type ToolCallOutcome = {
+  content: string;
+  images?: string[];
+  // Reported as a tool_error event instead of a tool_result
+  error?: string;
+};
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  run: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+type StreamedResponse = {
+  received: boolean;
+  content: string;
+  toolCalls: StreamedToolCall[];
+  // Reported with the last chunk of the stream
+  usage?: TokenUsage;
+};
+
+function textFromContent(
+  content: string | ContentChunk[] | null | undefined
+): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((chunk) => {
+        if (chunk.type === "text" && "text" in chunk) {
+          return chunk.text;
+        }
+        return "";
+      })
+      .join("");
+  }
+  return "";
+}
+
+/**
+ * Streams one model response, forwarding text deltas as they arrive and
+ * assembling tool calls whose name and arguments may be split across chunks.
+ */
+async function streamCompletion(
+  client: Mistral,
+  request: ChatCompletionStreamRequest,
+  onEvent: (event: AgentEvent) => void
+): Promise<StreamedResponse> {
+  const response: StreamedResponse = {
+    received: false,
+    content: "",
+    toolCalls: [],
+  };
+
+  const stream = await client.chat.stream(request);
+  for await (const event of stream) {
+    if (event.data.usage) {
+      response.usage = {
+        promptTokens: event.data.usage.promptTokens ?? 0,
+        completionTokens: event.data.usage.completionTokens ?? 0,
+      };
+    }
+    const choice = event.data.choices[0];
+    if (!choice) {
+      continue;
+    }
+    response.received = true;
+
+    const text = textFromContent(choice.delta.content);
+    if (text) {
+      response.content += text;
+      onEvent({ type: "text_delta", content: text });
+    }
+
+    for (const delta of choice.delta.toolCalls ?? []) {
+      const args =
+        typeof delta.function.arguments === "string"
+          ? delta.function.arguments
+          : JSON.stringify(delta.function.arguments);
+      const index = delta.index ?? response.toolCalls.length;
+      const existing = response.toolCalls[index];
+      // Continuation chunks carry no id (or "null") or repeat the same one
+      const isContinuation =
+        existing &&
+        (!delta.id || delta.id === "null" || delta.id === existing.id);
+
+      if (isContinuation) {
+        existing.name += delta.function.name || "";
+        existing.arguments += args;
+      } else {
+        const toolCall: StreamedToolCall = {
+          id: delta.id && delta.id !== "null" ? delta.id : "",
+          type: delta.type || "function",
+          name: delta.function.name || "",
+          arguments: args,
+        };
+        if (existing || delta.index === undefined) {
+          response.toolCalls.push(toolCall);
+        } else {
+          response.toolCalls[index] = toolCall;
+        }
+      }
+    }
+  }
+
+  // Sparse indices would otherwise leave holes in the list
+  response.toolCalls = response.toolCalls.filter(Boolean);
+  return response;
+}
+
+/**
+ * Runs one user turn: sends the conversation to the model and executes tool
+ * calls until the model answers with text or the iteration limit is hit.
+ * Never throws; API failures are reported through the returned status and
+ * roll the conversation history back to where it was before the turn.
+ */
+export async function runAgentTurn(
+  options: AgentTurnOptions
+): Promise<AgentTurnResult> {
+  const {
+    client,
+    conversationHistory,
+    session,
+    userMessage,
+    planMode,
+    canUseTool,
+    checkpoint,
+    usageStore,
+    onEvent = () => {},
+  } = options;
+  const turnUsage = emptyUsage();
+
+  // Everything recorded during this turn is rolled back if the turn fails
+  let historyLength = conversationHistory.length;
+  const userEntry: ConversationMessage = { role: "user", content: userMessage };
+  conversationHistory.push(userEntry);
+  appendSessionEntry(session, { type: "message", message: userEntry });
+
+  let iteration = 0;
+  let iterationsSinceTodoUpdate = 0;
+  let budgetExceeded = false;
+  const autoCompact = loadSettings().autoCompact !== false;
+  try {
+    // Add plan mode instruction to system prompt if in plan mode
+    let effectiveSystemPrompt = options.systemPrompt.trim();
+    if (planMode) {
+      effectiveSystemPrompt += PLAN_MODE_PROMPT;
+    }
+    const currentPlan = getPlan();
+    if (currentPlan) {
+      effectiveSystemPrompt += formatPlanPrompt(currentPlan, planMode);
+    }
+    effectiveSystemPrompt += formatTodosPrompt(getTodos());
+
+    const buildMessages = (): ChatMessage[] => [
+      {
+        role: "system",
+        content: effectiveSystemPrompt,
+      },
+      ...conversationHistory.map(toChatMessage),
+    ];
+    let messages = buildMessages();
+
+    const trackUsage = (model: string, usage: TokenUsage) => {
+      addUsage(turnUsage, usage);
+      if (usageStore) {
+        recordUsage(usageStore, model, usage);
+      }
+    };
+
+    // Earlier turns can be summarised, but never the current one, so the
+    // rollback point moves with the history
+    const compact = async (
+      modelConfig: ModelConfig,
+      tools: unknown[],
+      force: boolean
+    ): Promise<boolean> => {
+      const result = await compactConversation({
+        client: getModelClient(client, modelConfig),
+        modelConfig,
+        conversationHistory,
+        keepFrom: historyLength,
+        extraTokens: estimateTokens(
+          [],
+          effectiveSystemPrompt + JSON.stringify(tools)
+        ),
+        force,
+      });
+      if (!result) {
+        return false;
+      }
+      historyLength = mapHistoryLength(historyLength, result);
+      messages = buildMessages();
+      appendSessionEntry(session, {
+        type: "compaction",
+        conversationHistory: [...conversationHistory],
+      });
+      if (result.usage) {
+        trackUsage(modelConfig.model, result.usage);
+      }
+      onEvent({ type: "compaction", ...result });
+      return true;
+    };
+
+    // Keep the API transcript and the persisted history in lockstep so the
+    // next turn replays every tool call and result
+    const record = (msg: ConversationMessage) => {
+      conversationHistory.push(msg);
+      messages.push(toChatMessage(msg));
+      appendSessionEntry(session, { type: "message", message: msg });
+    };
+
+    const runToolCall = async (
+      toolCall: StreamedToolCall
+    ): Promise<ToolCallOutcome> => {
+      const functionName = toolCall.name;
+      const tool = getTool(functionName);
+      if (!tool) {
+        return {
+          content: `Error: Unknown tool: ${functionName}`,
+          error: `Unknown tool: ${functionName}`,
+        };
+      }
+
+      // Block write operations in plan mode
+      if (planMode && !tool.readOnly) {
+        return {
+          content: `Error: Cannot use ${functionName} in plan mode. Plan mode only allows reading, listing and searching files. Use '/approve' to exit plan mode and start implementation.`,
+          error: `Tool ${functionName} is not available in plan mode. Use '/approve' to exit plan mode and start implementation.`,
+        };
+      }
+
+      // Malformed arguments go back to the model instead of ending the turn
+      const parsed = parseToolArguments(tool, toolCall.arguments);
+      if (!parsed.ok) {
+        return { content: `Error: ${parsed.error}`, error: parsed.error };
+      }
+
+      if (canUseTool && !tool.readOnly && requiresPermission(functionName)) {
+        const decision = await canUseTool({
+          toolName: functionName,
+          args: parsed.args,
+        } as PermissionRequest);
+        if (decision.behavior === "deny") {
+          const message = `Permission to use ${functionName} was denied${
+            decision.reason ? `: ${decision.reason}` : ""
+          }`;
+          return { content: `Error: ${message}`, error: message };
+        }
+      }
+
+      const images: string[] = [];
+      const toolContext: ToolContext = {
+        onImage: (image) => {
+          images.push(image.dataUrl);
+        },
+        onOutput: (chunk) => {
+          onEvent({
+            type: "tool_output",
+            toolCallId: toolCall.id,
+            name: functionName,
+            content: chunk,
+          });
+        },
+        onFileChange: (change) => {
+          if (checkpoint) {
+            recordFileSnapshot(
+              checkpoint,
+              change.resolvedPath,
+              change.oldContent
+            );
+          }
+          onEvent({
+            type: "file_change",
+            toolCallId: toolCall.id,
+            filePath: change.filePath,
+            isNewFile: change.oldContent === null,
+            hunks: computeDiff(change.oldContent ?? "", change.newContent),
+          });
+        },
+        onPlanChange: (plan, step) => {
+          savePlan(session, plan);
+          onEvent({ type: "plan_update", plan, step });
+        },
+        onTodosChange: (todos) => {
+          appendSessionEntry(session, { type: "todos", todos });
+          onEvent({ type: "todo_update", todos });
+        },
+      };
+
+      const content = await tool.execute(parsed.args, toolContext);
+      return { content, images };
+    };
+
+    while (iteration < MAX_ITERATIONS) {
+      if (usageStore && isOverBudget(usageStore)) {
+        budgetExceeded = true;
+        break;
+      }
+      iteration++;
+
+      // In plan mode, only allow read-only tools
+      const availableTools = getTools({ readOnly: planMode }).map(toToolSchema);
+
+      const modelConfig = getModelConfig(planMode, options.model);
+      const requestTokens = estimateTokens(
+        conversationHistory,
+        effectiveSystemPrompt + JSON.stringify(availableTools)
+      );
+      if (autoCompact && shouldCompact(requestTokens, modelConfig)) {
+        await compact(modelConfig, availableTools, false);
+      }
+
+      const requestCompletion = () =>
+        streamCompletion(
+          getModelClient(client, modelConfig),
+          {
+            model: modelConfig.model,
+            messages,
+            tools: availableTools,
+            temperature: modelConfig.temperature,
+            maxTokens: modelConfig.maxTokens,
+          },
+          onEvent
+        );
+      let response: StreamedResponse;
+      try {
+        response = await requestCompletion();
+      } catch (error) {
+        // The estimate can be off; compact harder and try once more
+        if (
+          !autoCompact ||
+          !isContextLengthError(error) ||
+          !(await compact(modelConfig, availableTools, true))
+        ) {
+          throw error;
+        }
+        response = await requestCompletion();
+      }
+      if (response.usage) {
+        trackUsage(modelConfig.model, response.usage);
+      }
+
+      if (!response.received) {
+        // Rolled back below like any other failed request
+        throw new Error("No response");
+      }
+
+      const toolCalls = response.toolCalls;
+
+      if (toolCalls.length > 0) {
+        record({
+          role: "assistant",
+          content: response.content,
+          toolCalls: toolCalls
+            .filter((tc) => tc.id)
+            .map((tc) => ({
+              id: tc.id,
+              type: tc.type,
+              function: {
+                name: tc.name,
+                arguments: tc.arguments,
+              },
+            })),
+        });
+
+        const validToolCalls = toolCalls.filter((toolCall) => {
+          if (!toolCall.id) {
+            onEvent({
+              type: "tool_error",
+              name: toolCall.name,
+              message: "Tool call missing ID, skipping",
+            });
+          }
+          return Boolean(toolCall.id);
+        });
+
+        iterationsSinceTodoUpdate = validToolCalls.some(
+          (toolCall) => toolCall.name === "todo_write"
+        )
+          ? 0
+          : iterationsSinceTodoUpdate + 1;
+        const remindAboutTodos =
+          iterationsSinceTodoUpdate >= TODO_REMINDER_INTERVAL &&
+          hasUnfinishedTodos(getTodos());
+        if (remindAboutTodos) {
+          iterationsSinceTodoUpdate = 0;
+        }
+        const lastToolCall = validToolCalls[validToolCalls.length - 1];
+
+        // Consecutive read-only calls run concurrently; any other call waits
+        // for everything before it and runs alone, so edits and commands
+        // keep their order
+        const isReadOnlyCall = (toolCall: StreamedToolCall) =>
+          getTool(toolCall.name)?.readOnly === true;
+        const batches: StreamedToolCall[][] = [];
+        for (const toolCall of validToolCalls) {
+          const last = batches[batches.length - 1];
+          if (last && isReadOnlyCall(toolCall) && last.every(isReadOnlyCall)) {
+            last.push(toolCall);
+          } else {
+            batches.push([toolCall]);
+          }
+        }
+
+        for (const batch of batches) {
+          for (const toolCall of batch) {
+            onEvent({
+              type: "tool_call",
+              toolCallId: toolCall.id,
+              name: toolCall.name,
+              arguments: toolCall.arguments,
+            });
+          }
+          const outcomes = await mapWithConcurrency(
+            batch,
+            MAX_PARALLEL_TOOL_CALLS,
+            runToolCall
+          );
+          // Results go back in the order the model asked for them
+          batch.forEach((toolCall, index) => {
+            const outcome = outcomes[index];
+            onEvent(
+              outcome.error
+                ? {
+                    type: "tool_error",
+                    toolCallId: toolCall.id,
+                    name: toolCall.name,
+                    message: outcome.error,
+                  }
+                : {
+                    type: "tool_result",
+                    toolCallId: toolCall.id,
+                    name: toolCall.name,
+                    content: outcome.content,
+                  }
+            );
+            record({
+              role: "tool",
+              // The reminder rides on the last result of the iteration
+              content:
+                remindAboutTodos && toolCall === lastToolCall
+                  ? outcome.content + formatTodoReminder(getTodos())
+                  : outcome.content,
+              toolCallId: toolCall.id,
+              ...(outcome.images?.length ? { images: outcome.images } : {}),
+            });
+          });
+        }
+
+        continue;
+      }
+
+      const assistantMessage = response.content || "No response";
+
+      onEvent({ type: "assistant_message", content: assistantMessage });
+      record({
+        role: "assistant",
+        content: assistantMessage,
+      });
+
+      return {
+        status: "success",
+        response: assistantMessage,
+        iterations: iteration,
+        usage: turnUsage,
+      };
+    }
+
+    if (budgetExceeded) {
+      const budget = formatCost(usageStore?.budgetUsd ?? 0);
+      record({
+        role: "assistant",
+        content: `The session budget of ${budget} was used up before the task was completed.`,
+      });
+      return {
+        status: "budget_exceeded",
+        response: "",
+        iterations: iteration,
+        usage: turnUsage,
+        error: `Session budget of ${budget} reached`,
+      };
+    }
+
+    // A tool result cannot be followed directly by the next user message
+    record({
+      role: "assistant",
+      content: "Maximum iterations reached before the task was completed.",
+    });
+    return {
+      status: "max_iterations",
+      response: "",
+      iterations: iteration,
+      usage: turnUsage,
+      error: "Maximum iterations reached",
+    };
+  } catch (error) {
+    conversationHistory.length = historyLength;
+    appendSessionEntry(session, { type: "truncate", length: historyLength });
+    return {
+      status: "error",
+      response: "",
+      iterations: iteration,
+      usage: turnUsage,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
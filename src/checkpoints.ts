@@ -0,0 +1,114 @@
+import * as fs from "fs/promises";
+
+export type Checkpoint = {
+  prompt: string;
+  createdAt: Date;
+  // Length of the conversation history before the turn started
+  historyLength: number;
+  // Content of each file before the turn first modified it (null if the
+  // turn created the file)
+  files: Map<string, string | null>;
+};
+
+export type CheckpointStore = {
+  checkpoints: Checkpoint[];
+};
+
+export function createCheckpointStore(): CheckpointStore {
+  return { checkpoints: [] };
+}
+
+export function beginCheckpoint(
+  store: CheckpointStore,
+  prompt: string,
+  historyLength: number
+): Checkpoint {
+  const checkpoint: Checkpoint = {
+    prompt,
+    createdAt: new Date(),
+    historyLength,
+    files: new Map(),
+  };
+  store.checkpoints.push(checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Moves the conversation position of every checkpoint after the history was
+ * rewritten, e.g. by compaction.
+ */
+export function remapCheckpointHistory(
+  store: CheckpointStore,
+  map: (historyLength: number) => number
+): void {
+  for (const checkpoint of store.checkpoints) {
+    checkpoint.historyLength = map(checkpoint.historyLength);
+  }
+}
+
+export function recordFileSnapshot(
+  checkpoint: Checkpoint,
+  resolvedPath: string,
+  content: string | null
+): void {
+  // Only the state before the first modification in a turn matters
+  if (!checkpoint.files.has(resolvedPath)) {
+    checkpoint.files.set(resolvedPath, content);
+  }
+}
+
+async function restoreSnapshots(checkpoints: Checkpoint[]): Promise<string[]> {
+  const restored = new Set<string>();
+  // Newest first, so the oldest snapshot of a file is the one left on disk
+  for (const checkpoint of [...checkpoints].reverse()) {
+    for (const [filePath, content] of checkpoint.files) {
+      if (content === null) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        await fs.writeFile(filePath, content, "utf-8");
+      }
+      restored.add(filePath);
+    }
+    checkpoint.files.clear();
+  }
+  return [...restored];
+}
+
+/**
+ * Reverts the file changes of the most recent turn that still has any and
+ * returns the restored paths. The conversation is left untouched.
+ */
+export async function undoLastCheckpoint(
+  store: CheckpointStore
+): Promise<{ checkpoint: Checkpoint; files: string[] } | null> {
+  const checkpoint = [...store.checkpoints]
+    .reverse()
+    .find((candidate) => candidate.files.size > 0);
+  if (!checkpoint) {
+    return null;
+  }
+  return { checkpoint, files: await restoreSnapshots([checkpoint]) };
+}
+
+/**
+ * Restores every file changed since checkpoint `number` (1-based) began and
+ * drops that checkpoint and all later ones. Returns the history length the
+ * conversation should be truncated to.
+ */
+export async function rewindToCheckpoint(
+  store: CheckpointStore,
+  number: number
+): Promise<{ historyLength: number; files: string[] }> {
+  if (
+    !Number.isInteger(number) ||
+    number < 1 ||
+    number > store.checkpoints.length
+  ) {
+    throw new Error(
+      `Checkpoint ${number} does not exist (there are ${store.checkpoints.length})`
+    );
+  }
+  const dropped = store.checkpoints.splice(number - 1);
+  const files = await restoreSnapshots(dropped);
+  return { historyLength: dropped[0].historyLength, files };
+}
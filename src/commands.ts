@@ -1,44 +1,80 @@
 import { Mistral } from "@mistralai/mistralai";
-import type {
-  AssistantMessage,
-  SystemMessage,
-  ToolMessage,
-  UserMessage,
-} from "@mistralai/mistralai/models/components";
 import chalk from "chalk";
+import * as path from "path";
 import * as readline from "readline";
+import { runAgentTurn, type ConversationMessage } from "./agent.js";
 import {
-  editFileTool,
-  executeTool,
-  isToolName,
-  listDirectoryTool,
-  readFileTool,
-  runCommandTool,
-  type EditFileArgs,
-  type ListDirectoryArgs,
-  type ReadFileArgs,
-  type RunCommandArgs,
-} from "./tools.js";
-
-type ChatMessage =
-  | (SystemMessage & { role: "system" })
-  | (UserMessage & { role: "user" })
-  | (AssistantMessage & { role: "assistant" })
-  | (ToolMessage & { role: "tool" });
-
-type ConversationMessage = {
-  role: "user" | "assistant" | "tool";
-  content: string;
-  toolCallId?: string;
-  toolCalls?: Array<{
-    id: string;
-    type: string;
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
-};
+  beginCheckpoint,
+  remapCheckpointHistory,
+  rewindToCheckpoint,
+  undoLastCheckpoint,
+  type CheckpointStore,
+} from "./checkpoints.js";
+import {
+  compactConversation,
+  mapHistoryLength,
+  type CompactionResult,
+} from "./compaction.js";
+import {
+  expandCustomCommand,
+  findCustomCommand,
+  getCommandAllowedTools,
+  loadCustomCommands,
+  type CustomCommand,
+} from "./customCommands.js";
+import { computeDiff, renderDiff } from "./diff.js";
+import { getMcpServers } from "./mcp.js";
+import { appendMemoryNote } from "./memory.js";
+import {
+  getModel,
+  getModelClient,
+  getModelConfig,
+  KNOWN_MODELS,
+  listConfiguredModels,
+  setModel,
+} from "./models.js";
+import {
+  describeStatus,
+  isShellSessionSupported,
+  listBackgroundProcesses,
+  resetShellSession,
+} from "./processes.js";
+import {
+  createPermissionChecker,
+  isMcpRequest,
+  type PermissionAnswer,
+  type PermissionRequest,
+} from "./permissions.js";
+import {
+  formatStepNumbers,
+  getPlan,
+  getPlanFilePath,
+  getUnapprovedSteps,
+  parseStepNumbers,
+  renderPlan,
+  renderPlanStep,
+  savePlan,
+  setPlan,
+} from "./plan.js";
+import { buildSystemPrompt, INIT_PROMPT } from "./prompt.js";
+import {
+  appendSessionEntry,
+  createSession,
+  listSessions,
+  loadSession,
+  type SessionState,
+} from "./session.js";
+import { loadSettings, type PermissionRules } from "./settings.js";
+import { hasUnfinishedTodos, renderTodos, setTodos } from "./todos.js";
+import {
+  formatCost,
+  formatTokens,
+  formatUsageSummary,
+  getTotalCost,
+  recordUsage,
+  type UsageStore,
+} from "./usage.js";
+import { previewFileEdit, previewMultiEdit } from "./tools.js";
 
 export function createLoadingAnimation(): () => void {
   const frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
@@ -64,6 +100,206 @@ export function createLoadingAnimation(): () => void {
   };
 }
 
+const OUTPUT_PREVIEW_LINES = 5;
+
+// Removes color codes and keeps only what a carriage return would leave
+// visible, so progress bars show their latest state
+function cleanOutputLine(line: string): string {
+  const withoutAnsi = line.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "");
+  const segments = withoutAnsi.split("\r");
+  return segments.filter(Boolean).pop() ?? "";
+}
+
+/**
+ * Shows the output of a running command dimmed below the tool call,
+ * redrawn in place so that it collapses to the last few lines.
+ */
+function createOutputPreview(maxLines: number) {
+  let recent: string[] = [];
+  let partial = "";
+  let lineCount = 0;
+  let drawn = 0;
+
+  const draw = () => {
+    if (drawn > 0) {
+      process.stdout.write(`\x1b[${drawn}A\x1b[0J`);
+    }
+    const visible = partial ? [...recent, partial].slice(-maxLines) : recent;
+    const total = lineCount + (partial ? 1 : 0);
+    const width = Math.max(20, (process.stdout.columns || 80) - 4);
+    const output = visible.map((line) =>
+      chalk.dim(`   ${cleanOutputLine(line).slice(0, width)}`)
+    );
+    if (total > visible.length) {
+      output.unshift(chalk.gray(`   … ${total - visible.length} more lines`));
+    }
+    if (output.length > 0) {
+      process.stdout.write(output.join("\n") + "\n");
+    }
+    drawn = output.length;
+  };
+
+  return {
+    write(chunk: string) {
+      const lines = (partial + chunk).split("\n");
+      partial = lines.pop() ?? "";
+      lineCount += lines.length;
+      recent = [...recent, ...lines].slice(-maxLines);
+      draw();
+    },
+  };
+}
+
+export const BUILTIN_COMMANDS = [
+  "/plan",
+  "/approve",
+  "/undo",
+  "/checkpoints",
+  "/rewind",
+  "/sessions",
+  "/resume",
+  "/model",
+  "/cost",
+  "/compact",
+  "/init",
+  "/mcp",
+  "/ps",
+  "/shell-reset",
+];
+
+function isBuiltinCommand(name: string): boolean {
+  return BUILTIN_COMMANDS.includes(name);
+}
+
+/**
+ * Tab completion for the REPL: completes built-in and custom slash commands
+ * at the start of the line.
+ */
+export function completeCommand(line: string): [string[], string] {
+  if (!line.startsWith("/") || /\s/.test(line)) {
+    return [[], line];
+  }
+  const names = [
+    ...BUILTIN_COMMANDS,
+    ...loadCustomCommands()
+      .map((command) => `/${command.name}`)
+      .filter((name) => !isBuiltinCommand(name)),
+  ];
+  return [names.filter((name) => name.startsWith(line)), line];
+}
+
+function describeCompaction(result: CompactionResult): string {
+  const changes = [
+    result.removed > 0 ? `${result.removed} earlier messages summarised` : "",
+    result.elided > 0 ? `${result.elided} old tool results elided` : "",
+  ].filter(Boolean);
+  return `${changes.join(", ")} (~${formatTokens(
+    result.tokensBefore
+  )} → ~${formatTokens(result.tokensAfter)} tokens)`;
+}
+
+function askQuestion(rl: readline.Interface, query: string): Promise<string> {
+  return new Promise((resolve) => rl.question(query, resolve));
+}
+
+async function promptForPermission(
+  rl: readline.Interface,
+  request: PermissionRequest,
+  suggestedRule: string
+): Promise<PermissionAnswer> {
+  console.log(
+    chalk.yellow.bold(`\n⚠ Permission required: ${request.toolName}`)
+  );
+  if (request.toolName === "run_command") {
+    console.log(chalk.white(`   $ ${request.args.command}`));
+    if (request.args.working_directory) {
+      console.log(chalk.gray(`   in ${request.args.working_directory}`));
+    }
+  } else if (isMcpRequest(request)) {
+    console.log(
+      chalk.white(JSON.stringify(request.args, null, 2).replace(/^/gm, "   "))
+    );
+  } else {
+    try {
+      const change =
+        request.toolName === "edit_file"
+          ? await previewFileEdit(request.args)
+          : await previewMultiEdit(request.args);
+      console.log(
+        renderDiff(
+          change.filePath,
+          computeDiff(change.oldContent ?? "", change.newContent),
+          change.oldContent === null
+        )
+      );
+    } catch (error) {
+      console.log(chalk.white(`   ${request.args.file_path}`));
+      console.log(
+        chalk.red(
+          `   This edit will fail: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        )
+      );
+    }
+  }
+  console.log(
+    chalk.gray(
+      `   [y] Allow once  [a] Always allow ${suggestedRule}  [n] Deny\n`
+    )
+  );
+
+  while (true) {
+    const answer = (await askQuestion(rl, chalk.yellow("Allow? (y/a/n) ")))
+      .trim()
+      .toLowerCase();
+    if (answer === "y" || answer === "yes") {
+      return { choice: "once" };
+    }
+    if (answer === "a" || answer === "always") {
+      return { choice: "always" };
+    }
+    if (answer === "n" || answer === "no") {
+      const reason = (
+        await askQuestion(rl, chalk.gray("Reason for the agent (optional): "))
+      ).trim();
+      return { choice: "deny", reason: reason || undefined };
+    }
+  }
+}
+
+async function confirmAllowedTools(
+  rl: readline.Interface,
+  command: CustomCommand
+): Promise<boolean> {
+  console.log(
+    chalk.yellow.bold(
+      `⚠ This project's /${command.name} command allows without asking:`
+    )
+  );
+  for (const rule of command.allowedTools) {
+    console.log(chalk.white(`   ${rule}`));
+  }
+  console.log(
+    chalk.gray(
+      "   Declining still runs the command, asking before each of these as usual.\n"
+    )
+  );
+  while (true) {
+    const answer = (
+      await askQuestion(rl, chalk.yellow("Allow them for this command? (y/n) "))
+    )
+      .trim()
+      .toLowerCase();
+    if (answer === "y" || answer === "yes") {
+      return true;
+    }
+    if (answer === "n" || answer === "no") {
+      return false;
+    }
+  }
+}
+
 type PlanModeState = {
   getPlanMode: () => boolean;
   setPlanMode: (mode: boolean) => void;
@@ -75,7 +311,11 @@ export async function processCommand(
   systemPrompt: string,
   conversationHistory: ConversationMessage[],
   rl: readline.Interface,
-  planModeState: PlanModeState
+  planModeState: PlanModeState,
+  sessionState: SessionState,
+  permissionRules: PermissionRules,
+  checkpointStore: CheckpointStore,
+  usageStore: UsageStore
 ): Promise<void> {
   const trimmed = input.trim();
 
@@ -87,7 +327,13 @@ export async function processCommand(
 
   if (trimmed === "clear") {
     conversationHistory.length = 0;
+    checkpointStore.checkpoints.length = 0;
+    // The previous transcript stays on disk and can be resumed later
+    sessionState.setSession(createSession());
+    resetShellSession();
     planModeState.setPlanMode(false);
+    setPlan(null);
+    setTodos([]);
     console.log(chalk.green("✓ Conversation history cleared.\n"));
     rl.prompt();
     return;
@@ -99,12 +345,402 @@ export async function processCommand(
 Available commands:
   - Type any message to chat with the agent
   - '/plan <message>' - Enter plan mode (read-only, creates step-by-step plan)
-  - '/approve' - Approve the plan and start implementation
+  - '/approve [steps]' - Approve the plan, or only some steps (e.g. 1-3), and start implementation
+  - '/plan show' - Show the plan and the progress on its steps
+  - '/plan edit <n> [text]' - Replace step n of the plan, or remove it when no text is given
   - 'exit' or 'quit' - Exit the CLI
+  - '/undo' - Revert the file changes made in the last turn
+  - '/checkpoints' - List the turns of this session that can be rewound
+  - '/rewind <n>' - Restore files and conversation to before turn n
+  - '/sessions' - List saved sessions for this project
+  - '/resume <id>' - Resume a saved session
+  - '/model [plan] [name]' - Show or switch the model for this session
+  - '/cost' - Show token usage and estimated cost for this session
+  - '/compact [instructions]' - Summarise the conversation to free up context
+  - '/init' - Analyze the project and write a MISTRAL.md for future sessions
+  - '# <note>' - Add a note to the project's MISTRAL.md
+  - '/mcp' - Show connected MCP servers and their tools
+  - '/ps' - List background processes started by the agent
+  - '/shell-reset' - Restart the persistent shell session
   - 'clear' - Clear conversation history
   - 'help' - Show this help message
 `)
     );
+    const customCommands = loadCustomCommands().filter(
+      (command) => !isBuiltinCommand(`/${command.name}`)
+    );
+    if (customCommands.length > 0) {
+      console.log(chalk.blue("Custom commands:"));
+      for (const command of customCommands) {
+        console.log(
+          chalk.blue(
+            `  - '/${command.name}${
+              command.argumentHint ? ` ${command.argumentHint}` : ""
+            }' - ${command.description} ${chalk.gray(`(${command.scope})`)}`
+          )
+        );
+      }
+      console.log();
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/undo") {
+    try {
+      const undone = await undoLastCheckpoint(checkpointStore);
+      if (!undone) {
+        console.log(chalk.yellow("ℹ No file changes to undo.\n"));
+      } else {
+        console.log(
+          chalk.green(
+            `✓ Reverted ${
+              undone.files.length
+            } file(s) changed by "${undone.checkpoint.prompt.slice(0, 60)}":`
+          )
+        );
+        for (const filePath of undone.files) {
+          console.log(
+            chalk.gray(`   ${path.relative(process.cwd(), filePath)}`)
+          );
+        }
+        console.log();
+      }
+    } catch (error) {
+      console.error(
+        chalk.red.bold("✗ Error:"),
+        chalk.red(error instanceof Error ? error.message : "Unknown error")
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/checkpoints") {
+    if (checkpointStore.checkpoints.length === 0) {
+      console.log(chalk.yellow("ℹ No checkpoints yet in this session.\n"));
+    } else {
+      console.log(chalk.blue("\nCheckpoints:"));
+      checkpointStore.checkpoints.forEach((checkpoint, index) => {
+        console.log(
+          `  ${chalk.yellow(String(index + 1).padStart(3))}  ${chalk.gray(
+            checkpoint.createdAt.toLocaleTimeString()
+          )}  ${chalk.gray(
+            `${checkpoint.files.size} file(s)`
+          )}  ${checkpoint.prompt.replace(/\s+/g, " ").slice(0, 60)}`
+        );
+      });
+      console.log(
+        chalk.gray(
+          "\n💡 Type '/rewind <n>' to restore files and conversation to before turn n.\n"
+        )
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/rewind" || trimmed.startsWith("/rewind ")) {
+    const number = Number(trimmed.slice(7).trim());
+    try {
+      const rewound = await rewindToCheckpoint(checkpointStore, number);
+      conversationHistory.length = rewound.historyLength;
+      appendSessionEntry(sessionState.getSession(), {
+        type: "truncate",
+        length: rewound.historyLength,
+      });
+      console.log(
+        chalk.green(
+          `✓ Rewound to before turn ${number} (${rewound.files.length} file(s) restored)\n`
+        )
+      );
+    } catch (error) {
+      console.error(
+        chalk.red.bold("✗ Error:"),
+        chalk.red(error instanceof Error ? error.message : "Unknown error")
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/mcp") {
+    const servers = getMcpServers();
+    if (servers.length === 0) {
+      console.log(
+        chalk.yellow(
+          "ℹ No MCP servers configured. Add them to .mistral-code/mcp.json.\n"
+        )
+      );
+    } else {
+      console.log(chalk.blue("\nMCP servers:"));
+      for (const server of servers) {
+        if (server.status === "failed") {
+          console.log(
+            `  ${chalk.red("✗")} ${server.name} ${chalk.gray(
+              `(${server.transport})`
+            )}  ${chalk.red(`failed: ${server.error}`)}`
+          );
+          continue;
+        }
+        if (server.status === "not_approved") {
+          console.log(
+            `  ${chalk.gray("○")} ${server.name} ${chalk.gray(
+              `(${server.transport})  not connected: ${server.error}`
+            )}`
+          );
+          continue;
+        }
+        console.log(
+          `  ${chalk.green("✓")} ${server.name} ${chalk.gray(
+            `(${server.transport}, ${server.tools.length} tools)`
+          )}`
+        );
+        for (const tool of server.tools) {
+          console.log(
+            `      ${chalk.yellow(tool.name)}  ${chalk.gray(
+              tool.description.split("\n")[0].slice(0, 80)
+            )}`
+          );
+        }
+      }
+      console.log();
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/ps") {
+    const processes = listBackgroundProcesses();
+    if (processes.length === 0) {
+      console.log(chalk.yellow("ℹ No background processes.\n"));
+    } else {
+      console.log(chalk.blue("\nBackground processes:"));
+      for (const backgroundProcess of processes) {
+        const status = describeStatus(backgroundProcess);
+        console.log(
+          `  ${chalk.yellow(backgroundProcess.id.padEnd(6))}  ${chalk.gray(
+            `pid ${backgroundProcess.pid ?? "?"}`
+          )}  ${
+            backgroundProcess.status === "running"
+              ? chalk.green(status)
+              : chalk.gray(status)
+          }  ${chalk.gray(backgroundProcess.startedAt.toLocaleTimeString())}  ${
+            backgroundProcess.command
+          }`
+        );
+      }
+      console.log();
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/shell-reset") {
+    if (!loadSettings().tools?.persistentShell || !isShellSessionSupported()) {
+      console.log(
+        chalk.yellow(
+          'ℹ The persistent shell is off. Enable it with "tools": { "persistentShell": true } in settings.json.\n'
+        )
+      );
+    } else {
+      resetShellSession();
+      console.log(
+        chalk.green(
+          "✓ Shell session reset. The next command starts in a fresh shell.\n"
+        )
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/sessions") {
+    const sessions = listSessions();
+    if (sessions.length === 0) {
+      console.log(chalk.yellow("ℹ No saved sessions for this project.\n"));
+    } else {
+      const currentId = sessionState.getSession().id;
+      console.log(chalk.blue("\nSaved sessions:"));
+      for (const summary of sessions) {
+        const marker =
+          summary.id === currentId ? chalk.green(" (current)") : "";
+        console.log(
+          `  ${chalk.yellow(summary.id.slice(0, 8))}  ${chalk.gray(
+            summary.updatedAt.toLocaleString()
+          )}  ${chalk.gray(`${summary.messageCount} messages`)}  ${
+            summary.preview
+          }${marker}`
+        );
+      }
+      console.log(
+        chalk.gray("\n💡 Type '/resume <id>' to resume a session.\n")
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/compact" || trimmed.startsWith("/compact ")) {
+    const instructions = trimmed.slice(8).trim();
+    if (conversationHistory.length === 0) {
+      console.log(chalk.yellow("ℹ Nothing to compact yet.\n"));
+      rl.prompt();
+      return;
+    }
+    const stopLoading = createLoadingAnimation();
+    try {
+      const modelConfig = getModelConfig(planModeState.getPlanMode());
+      const result = await compactConversation({
+        client: getModelClient(client, modelConfig),
+        modelConfig,
+        conversationHistory,
+        keepFrom: conversationHistory.length,
+        instructions: instructions || undefined,
+        force: true,
+      });
+      stopLoading();
+      if (result) {
+        remapCheckpointHistory(checkpointStore, (length) =>
+          mapHistoryLength(length, result)
+        );
+        appendSessionEntry(sessionState.getSession(), {
+          type: "compaction",
+          conversationHistory: [...conversationHistory],
+        });
+        if (result.usage) {
+          recordUsage(usageStore, modelConfig.model, result.usage);
+        }
+        console.log(
+          chalk.green(
+            `✓ Conversation compacted: ${describeCompaction(result)}\n`
+          )
+        );
+      }
+    } catch (error) {
+      stopLoading();
+      console.error(
+        chalk.red.bold("✗ Error:"),
+        chalk.red(error instanceof Error ? error.message : "Unknown error")
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/cost") {
+    if (usageStore.byModel.size === 0) {
+      console.log(chalk.yellow("ℹ No model requests yet in this session.\n"));
+    } else {
+      console.log(chalk.blue("\nSession usage:"));
+      for (const line of formatUsageSummary(usageStore)) {
+        console.log(`  ${line}`);
+      }
+      console.log(
+        chalk.gray(
+          "\nCosts are estimates from list prices; models without a known price are not counted.\n"
+        )
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/model" || trimmed.startsWith("/model ")) {
+    const parts = trimmed.slice(6).trim().split(/\s+/).filter(Boolean);
+    const forPlanMode = parts[0] === "plan";
+    const model = forPlanMode ? parts[1] : parts[0];
+    if (!model) {
+      const configured = listConfiguredModels();
+      console.log(chalk.blue("\nModels:"));
+      console.log(`  Implementation: ${chalk.yellow(getModel(false))}`);
+      console.log(`  Plan mode:      ${chalk.yellow(getModel(true))}`);
+      console.log(
+        chalk.gray(
+          `\nAvailable: ${[...new Set([...configured, ...KNOWN_MODELS])].join(
+            ", "
+          )}`
+        )
+      );
+      console.log(
+        chalk.gray("Switch with /model <name> or /model plan <name>\n")
+      );
+    } else {
+      setModel(model, { planMode: forPlanMode });
+      console.log(
+        chalk.green(
+          `✓ ${
+            forPlanMode ? "Plan mode" : "Implementation"
+          } model set to ${model} for this session.\n`
+        )
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed === "/resume" || trimmed.startsWith("/resume ")) {
+    const id = trimmed.slice(7).trim();
+    if (!id) {
+      console.log(chalk.yellow("ℹ Usage: /resume <id> (see '/sessions')\n"));
+      rl.prompt();
+      return;
+    }
+    try {
+      const loaded = loadSession(id);
+      conversationHistory.length = 0;
+      conversationHistory.push(...loaded.conversationHistory);
+      checkpointStore.checkpoints.length = 0;
+      sessionState.setSession(loaded.session);
+      resetShellSession();
+      planModeState.setPlanMode(loaded.planMode);
+      setPlan(loaded.plan);
+      setTodos(loaded.todos);
+      console.log(
+        chalk.green(
+          `✓ Resumed session ${loaded.session.id} (${loaded.conversationHistory.length} messages)\n`
+        )
+      );
+      if (loaded.planMode) {
+        console.log(chalk.yellow("📋 [PLAN MODE ACTIVE]\n"));
+      }
+      if (loaded.plan) {
+        console.log(renderPlan(loaded.plan) + "\n");
+      }
+      if (hasUnfinishedTodos(loaded.todos)) {
+        console.log(renderTodos(loaded.todos) + "\n");
+      }
+    } catch (error) {
+      console.error(
+        chalk.red.bold("✗ Error:"),
+        chalk.red(error instanceof Error ? error.message : "Unknown error")
+      );
+    }
+    rl.prompt();
+    return;
+  }
+
+  if (trimmed.startsWith("#")) {
+    const note = trimmed.slice(1).trim();
+    if (!note) {
+      console.log(
+        chalk.yellow(
+          "ℹ Type '# <note>' to add a note to the project's MISTRAL.md.\n"
+        )
+      );
+    } else {
+      try {
+        const filePath = appendMemoryNote(note);
+        console.log(
+          chalk.green(`✓ Added to ${path.relative(process.cwd(), filePath)}\n`)
+        );
+      } catch (error) {
+        console.error(
+          chalk.red.bold("✗ Error:"),
+          chalk.red(error instanceof Error ? error.message : "Unknown error")
+        );
+      }
+    }
     rl.prompt();
     return;
   }
@@ -117,9 +753,104 @@ Available commands:
   let userMessage = trimmed;
   let isPlanMode = planModeState.getPlanMode();
 
+  // Built-in commands always win over a custom command of the same name
+  const custom =
+    trimmed.startsWith("/") && !isBuiltinCommand(trimmed.split(/\s/)[0])
+      ? findCustomCommand(trimmed)
+      : null;
+  const customAllowedTools = custom
+    ? await getCommandAllowedTools(custom.command, (command) =>
+        confirmAllowedTools(rl, command)
+      )
+    : [];
+  if (custom) {
+    userMessage = expandCustomCommand(custom.command, custom.args);
+    console.log(chalk.gray(`⚡ Running /${custom.command.name}\n`));
+  }
+
+  if (trimmed === "/init") {
+    if (isPlanMode) {
+      console.log(
+        chalk.yellow(
+          "ℹ /init writes MISTRAL.md, which plan mode does not allow. Use '/approve' to leave plan mode first.\n"
+        )
+      );
+      rl.prompt();
+      return;
+    }
+    userMessage = INIT_PROMPT;
+    console.log(chalk.gray("📝 Analyzing the project to write MISTRAL.md\n"));
+  }
+
   // Check for /plan prefix
-  if (trimmed.startsWith("/plan")) {
+  if (!custom && trimmed.startsWith("/plan")) {
     const planMessage = trimmed.slice(5).trim();
+    const plan = getPlan();
+    if (planMessage === "show") {
+      if (plan) {
+        console.log(renderPlan(plan));
+        console.log(
+          chalk.gray(
+            `   Saved to ${getPlanFilePath(sessionState.getSession())}\n`
+          )
+        );
+      } else {
+        console.log(
+          chalk.yellow("ℹ No plan yet. Use '/plan <message>' to make one.\n")
+        );
+      }
+      rl.prompt();
+      return;
+    }
+    if (planMessage === "edit" || planMessage.startsWith("edit ")) {
+      const match = planMessage.match(/^edit\s+(\d+)(?:\s+([\s\S]+))?$/);
+      const stepNumber = Number(match?.[1]);
+      const description = match?.[2]?.trim();
+      if (!plan) {
+        console.log(
+          chalk.yellow("ℹ No plan yet. Use '/plan <message>' to make one.\n")
+        );
+      } else if (!match) {
+        console.log(
+          chalk.yellow(
+            "ℹ Usage: /plan edit <n> <text> to replace step n (or add it after the last step), /plan edit <n> to remove it\n"
+          )
+        );
+      } else if (
+        stepNumber < 1 ||
+        stepNumber > plan.steps.length + (description ? 1 : 0)
+      ) {
+        console.log(
+          chalk.yellow(
+            `ℹ Step ${stepNumber} is out of range; the plan has ${plan.steps.length} steps\n`
+          )
+        );
+      } else {
+        if (!description) {
+          plan.steps.splice(stepNumber - 1, 1);
+        } else if (stepNumber > plan.steps.length) {
+          plan.steps.push({ description, status: "pending", approved: false });
+        } else {
+          // An edited step starts over, but keeps the approval it had
+          plan.steps[stepNumber - 1] = {
+            ...plan.steps[stepNumber - 1],
+            description,
+            status: "pending",
+            note: undefined,
+          };
+        }
+        const editedPlan = plan.steps.length > 0 ? plan : null;
+        setPlan(editedPlan);
+        savePlan(sessionState.getSession(), editedPlan);
+        console.log(
+          editedPlan
+            ? renderPlan(editedPlan) + "\n"
+            : chalk.green("✓ Removed the last step; there is no plan now.\n")
+        );
+      }
+      rl.prompt();
+      return;
+    }
     if (planMessage) {
       userMessage = planMessage;
       isPlanMode = true;
@@ -129,7 +860,7 @@ Available commands:
       );
       console.log(
         chalk.gray(
-          "💡 Type '/approve' to approve the plan and start implementation, or type your changes to update the plan.\n"
+          "💡 Type '/approve' to approve the plan and start implementation ('/approve 1-3' for some steps), or type your changes to update the plan.\n"
         )
       );
     } else {
@@ -141,7 +872,7 @@ Available commands:
       );
       console.log(
         chalk.gray(
-          "💡 Type '/approve' to approve the plan and start implementation, or type your changes to update the plan.\n"
+          "💡 Type '/approve' to approve the plan and start implementation ('/approve 1-3' for some steps), or type your changes to update the plan.\n"
         )
       );
       rl.prompt();
@@ -152,270 +883,279 @@ Available commands:
   // Check for /approve to exit plan mode
   const lowerTrimmed = trimmed.toLowerCase();
   const isApprovalCommand =
-    lowerTrimmed === "/approve" ||
-    lowerTrimmed === "approve" ||
-    lowerTrimmed === "yes" ||
-    lowerTrimmed === "yes, implement" ||
-    lowerTrimmed === "yes implement" ||
-    lowerTrimmed.startsWith("/approve");
+    !custom &&
+    (lowerTrimmed === "/approve" ||
+      lowerTrimmed === "approve" ||
+      lowerTrimmed === "yes" ||
+      lowerTrimmed === "yes, implement" ||
+      lowerTrimmed === "yes implement" ||
+      lowerTrimmed.startsWith("/approve"));
 
   // If already in plan mode (from previous command), remind user
   if (isPlanMode && !trimmed.startsWith("/plan") && !isApprovalCommand) {
     console.log(chalk.yellow("📋 [PLAN MODE ACTIVE]"));
     console.log(
       chalk.gray(
-        "💡 Type '/approve' to approve the plan and start implementation, or type your changes to update the plan.\n"
+        "💡 Type '/approve' to approve the plan and start implementation ('/approve 1-3' for some steps), or type your changes to update the plan.\n"
       )
     );
   }
 
   if (isApprovalCommand) {
-    if (isPlanMode) {
-      planModeState.setPlanMode(false);
+    const plan = getPlan();
+    const isSlashApprove = lowerTrimmed.startsWith("/approve");
+    const stepSpec = isSlashApprove ? trimmed.slice(8).trim() : "";
+    // Outside plan mode, /approve can still approve more steps of the plan
+    const canApprove =
+      isPlanMode ||
+      (plan !== null &&
+        isSlashApprove &&
+        (stepSpec !== "" || getUnapprovedSteps(plan).length > 0));
+    if (!canApprove) {
       console.log(
-        chalk.green("✓ Plan approved - implementation mode enabled\n")
+        chalk.yellow("ℹ Not in plan mode. Use '/plan' to enter plan mode.\n")
       );
-      userMessage = "Please implement the plan we discussed.";
-      isPlanMode = false; // Update local variable
-    } else {
+      rl.prompt();
+      return;
+    }
+    if (stepSpec && !plan) {
       console.log(
-        chalk.yellow("ℹ Not in plan mode. Use '/plan' to enter plan mode.\n")
+        chalk.yellow(
+          "ℹ There is no plan with steps to approve yet. Use '/approve' to approve the plan as discussed.\n"
+        )
       );
       rl.prompt();
       return;
     }
-  }
-
-  conversationHistory.push({ role: "user", content: userMessage });
 
-  const stopLoading = createLoadingAnimation();
-  try {
-    // Add plan mode instruction to system prompt if in plan mode
-    let effectiveSystemPrompt = systemPrompt.trim();
+    if (plan) {
+      let approvedSteps: number[];
+      try {
+        approvedSteps = stepSpec
+          ? parseStepNumbers(stepSpec, plan.steps.length)
+          : getUnapprovedSteps(plan);
+      } catch (error) {
+        console.log(
+          chalk.yellow(
+            `ℹ ${error instanceof Error ? error.message : "Unknown error"}\n`
+          )
+        );
+        rl.prompt();
+        return;
+      }
+      for (const stepNumber of approvedSteps) {
+        plan.steps[stepNumber - 1].approved = true;
+      }
+      savePlan(sessionState.getSession(), plan);
+      const remainingSteps = getUnapprovedSteps(plan);
+      const describeSteps = (steps: number[]) =>
+        `${steps.length === 1 ? "Step" : "Steps"} ${formatStepNumbers(steps)}`;
+      const approvedLabel =
+        approvedSteps.length === 0 ? "Plan" : describeSteps(approvedSteps);
+      console.log(
+        chalk.green(
+          `✓ ${approvedLabel} approved - implementation mode enabled\n`
+        )
+      );
+      console.log(renderPlan(plan) + "\n");
+      userMessage =
+        approvedSteps.length === 0
+          ? "Please implement the approved steps of the plan."
+          : `I approved ${approvedLabel.toLowerCase()} of the plan. Please implement ${
+              approvedSteps.length === 1 ? "it" : "them"
+            }.`;
+      if (remainingSteps.length > 0) {
+        userMessage += ` ${describeSteps(remainingSteps)} ${
+          remainingSteps.length === 1 ? "is" : "are"
+        } not approved yet; do not work on ${
+          remainingSteps.length === 1 ? "it" : "them"
+        }.`;
+      }
+    } else {
+      console.log(
+        chalk.green("✓ Plan approved - implementation mode enabled\n")
+      );
+      userMessage = "Please implement the plan we discussed.";
+    }
     if (isPlanMode) {
-      effectiveSystemPrompt +=
-        "\n\n[PLAN MODE ACTIVE] You are currently in PLAN MODE. This means:\n- You MUST NOT make any changes to files (do not use edit_file tool)\n- You MUST NOT execute any commands (do not use run_command tool)\n- You CAN read files (read_file) and list directories (list_directory) to understand the codebase\n- Your goal is to create a detailed, step-by-step plan for the user\n- Present the plan clearly with numbered steps\n- Wait for user approval before implementing anything\n- If the user suggests changes to the plan, update the plan accordingly";
+      planModeState.setPlanMode(false);
+      isPlanMode = false; // Update local variable
     }
+  }
 
-    const messages: ChatMessage[] = [
-      {
-        role: "system",
-        content: effectiveSystemPrompt,
-      },
-      ...conversationHistory.map((msg): ChatMessage => {
-        if (msg.role === "tool" && msg.toolCallId) {
-          return {
-            role: "tool",
-            content: msg.content,
-            toolCallId: msg.toolCallId,
-          };
-        }
-        if (msg.toolCalls && msg.toolCalls.length > 0) {
-          return {
-            role: "assistant",
-            content: msg.content,
-            toolCalls: msg.toolCalls.map((tc) => ({
-              id: tc.id,
-              type: tc.type as "function",
-              function: {
-                name: tc.function.name,
-                arguments:
-                  typeof tc.function.arguments === "string"
-                    ? tc.function.arguments
-                    : JSON.stringify(tc.function.arguments),
-              },
-            })),
-          };
-        }
-        return {
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        };
-      }),
-    ];
-
-    let maxIterations = 10;
-    let iteration = 0;
-
-    while (iteration < maxIterations) {
-      iteration++;
-
-      // In plan mode, only allow read-only tools
-      const availableTools = isPlanMode
-        ? [readFileTool, listDirectoryTool]
-        : [readFileTool, listDirectoryTool, editFileTool, runCommandTool];
-
-      const chatResponse = await client.chat.complete({
-        model: "mistral-small-latest",
-        messages,
-        tools: availableTools,
-      });
-
-      const choice = chatResponse.choices[0];
-      if (!choice) {
-        stopLoading();
-        console.log(chalk.red("✗ Mistral Code: No response\n"));
-        break;
-      }
+  // The spinner only runs while waiting on the model or on tool execution
+  let stopLoading: (() => void) | null = createLoadingAnimation();
+  const pauseLoading = () => {
+    stopLoading?.();
+    stopLoading = null;
+  };
+  const resumeLoading = () => {
+    stopLoading = stopLoading || createLoadingAnimation();
+  };
 
-      const message = choice.message;
-      const toolCalls = message.toolCalls;
-
-      if (toolCalls && toolCalls.length > 0) {
-        const assistantMsg: AssistantMessage & { role: "assistant" } = {
-          role: "assistant",
-          content: message.content || "",
-          toolCalls: toolCalls.map((tc) => ({
-            id: tc.id || "",
-            type: tc.type || "function",
-            function: {
-              name: tc.function.name,
-              arguments:
-                typeof tc.function.arguments === "string"
-                  ? tc.function.arguments
-                  : JSON.stringify(tc.function.arguments),
-            },
-          })),
-        };
-        messages.push(assistantMsg);
-
-        for (const toolCall of toolCalls) {
-          if (!toolCall.id) {
-            console.error(chalk.red("✗ Tool call missing ID, skipping"));
-            continue;
-          }
+  // Whether a model response is currently being printed token by token
+  let isStreaming = false;
+  const endStreamedLine = () => {
+    if (isStreaming) {
+      process.stdout.write("\n\n");
+      isStreaming = false;
+    }
+  };
+  let outputPreview: ReturnType<typeof createOutputPreview> | null = null;
+  const modeIndicator = isPlanMode ? chalk.yellow(" [PLAN MODE]") : "";
 
-          const functionName = toolCall.function.name;
-          const functionArgsStr =
-            typeof toolCall.function.arguments === "string"
-              ? toolCall.function.arguments
-              : JSON.stringify(toolCall.function.arguments);
+  const checkpoint = beginCheckpoint(
+    checkpointStore,
+    userMessage,
+    conversationHistory.length
+  );
 
-          console.log(
-            chalk.blue(
-              `\n${chalk.bold("🔧")} Calling tool: ${chalk.yellow(
-                functionName
-              )}`
-            )
-          );
-          console.log(
-            chalk.gray(`   Arguments: ${chalk.gray(functionArgsStr)}\n`)
+  const result = await runAgentTurn({
+    client,
+    systemPrompt: await buildSystemPrompt(systemPrompt),
+    conversationHistory,
+    session: sessionState.getSession(),
+    userMessage,
+    planMode: isPlanMode,
+    model: custom?.command.model,
+    checkpoint,
+    usageStore,
+    canUseTool: createPermissionChecker({
+      sessionRules: {
+        ...permissionRules,
+        allow: [...(permissionRules.allow ?? []), ...customAllowedTools],
+      },
+      prompt: async (request, suggestedRule) => {
+        pauseLoading();
+        endStreamedLine();
+        const answer = await promptForPermission(rl, request, suggestedRule);
+        resumeLoading();
+        return answer;
+      },
+    }),
+    onEvent: (event) => {
+      if (event.type === "text_delta") {
+        pauseLoading();
+        if (!isStreaming) {
+          process.stdout.write(
+            chalk.bold.cyan("Mistral Code:") + modeIndicator + " "
           );
-
-          if (!isToolName(functionName)) {
-            console.error(chalk.red(`✗ Unknown tool: ${functionName}`));
-            continue;
-          }
-
-          // Block write operations in plan mode
-          if (
-            isPlanMode &&
-            (functionName === "edit_file" || functionName === "run_command")
-          ) {
-            console.error(
-              chalk.red(
-                `✗ Tool ${functionName} is not available in plan mode. Use '/approve' to exit plan mode and start implementation.`
-              )
-            );
-            messages.push({
-              role: "tool" as const,
-              content: `Error: Cannot use ${functionName} in plan mode. Plan mode only allows reading files and listing directories. Use '/approve' to exit plan mode and start implementation.`,
-              toolCallId: toolCall.id,
-            });
-            continue;
-          }
-
-          let result: string;
-          if (functionName === "read_file") {
-            const functionArgs = JSON.parse(functionArgsStr) as ReadFileArgs;
-            result = await executeTool(functionName, functionArgs);
-          } else if (functionName === "list_directory") {
-            const functionArgs = JSON.parse(
-              functionArgsStr
-            ) as ListDirectoryArgs;
-            result = await executeTool(functionName, functionArgs);
-          } else if (functionName === "edit_file") {
-            const functionArgs = JSON.parse(functionArgsStr) as EditFileArgs;
-            result = await executeTool(functionName, functionArgs);
-          } else if (functionName === "run_command") {
-            const functionArgs = JSON.parse(functionArgsStr) as RunCommandArgs;
-            result = await executeTool(functionName, functionArgs);
-          } else {
-            const _exhaustive: never = functionName;
-            console.error(chalk.red(`✗ Unknown tool: ${functionName}`));
-            continue;
+          isStreaming = true;
+        }
+        process.stdout.write(chalk.white(event.content));
+      } else if (event.type === "tool_call" && event.name !== "todo_write") {
+        // todo_write shows up as the checklist it produces instead
+        pauseLoading();
+        endStreamedLine();
+        console.log(
+          chalk.blue(
+            `${chalk.bold("🔧")} Calling tool: ${chalk.yellow(event.name)}`
+          )
+        );
+        console.log(
+          chalk.gray(`   Arguments: ${chalk.gray(event.arguments)}\n`)
+        );
+        resumeLoading();
+      } else if (event.type === "tool_output") {
+        if (process.stdout.isTTY) {
+          pauseLoading();
+          if (!outputPreview) {
+            console.log(chalk.gray("   Running… (Ctrl+C to stop the command)"));
+            outputPreview = createOutputPreview(OUTPUT_PREVIEW_LINES);
           }
-
-          messages.push({
-            role: "tool" as const,
-            content: result,
-            toolCallId: toolCall.id,
-          });
+          outputPreview.write(event.content);
         }
-
-        continue;
-      }
-
-      const content = message.content;
-      let assistantMessage: string;
-
-      if (typeof content === "string") {
-        assistantMessage = content;
-      } else if (Array.isArray(content)) {
-        assistantMessage = content
-          .map((chunk) => {
-            if (chunk.type === "text" && "text" in chunk) {
-              return chunk.text;
-            }
-            return "";
-          })
-          .filter(Boolean)
-          .join("");
-      } else {
-        assistantMessage = "No response";
-      }
-
-      if (!assistantMessage) {
-        assistantMessage = "No response";
-      }
-
-      stopLoading();
-
-      // Show plan mode indicator
-      const modeIndicator = isPlanMode ? chalk.yellow(" [PLAN MODE]") : "";
-      console.log(
-        chalk.bold.cyan("Mistral Code:") +
-          modeIndicator +
-          ` ${chalk.white(assistantMessage)}\n`
-      );
-
-      if (isPlanMode) {
+      } else if (event.type === "tool_result") {
+        if (outputPreview) {
+          outputPreview = null;
+          console.log();
+          resumeLoading();
+        }
+      } else if (event.type === "compaction") {
+        remapCheckpointHistory(checkpointStore, (length) =>
+          mapHistoryLength(length, event)
+        );
+        pauseLoading();
+        endStreamedLine();
         console.log(
           chalk.gray(
-            "💡 Type '/approve' to approve the plan and start implementation, or type your changes to update the plan.\n"
+            `📦 Compacted the conversation: ${describeCompaction(event)}\n`
           )
         );
+        resumeLoading();
+      } else if (event.type === "plan_update") {
+        pauseLoading();
+        endStreamedLine();
+        console.log(
+          (event.step
+            ? renderPlanStep(event.plan, event.step)
+            : renderPlan(event.plan)) + "\n"
+        );
+        resumeLoading();
+      } else if (event.type === "todo_update") {
+        pauseLoading();
+        endStreamedLine();
+        if (event.todos.length > 0) {
+          console.log(renderTodos(event.todos) + "\n");
+        }
+        resumeLoading();
+      } else if (event.type === "file_change") {
+        pauseLoading();
+        console.log(
+          renderDiff(event.filePath, event.hunks, event.isNewFile) + "\n"
+        );
+        resumeLoading();
+      } else if (event.type === "tool_error") {
+        outputPreview = null;
+        pauseLoading();
+        console.error(chalk.red(`✗ ${event.message}`));
+        resumeLoading();
       }
+    },
+  });
+  pauseLoading();
+  const streamedResponse = isStreaming;
+  endStreamedLine();
 
-      conversationHistory.push({
-        role: "assistant",
-        content: assistantMessage,
-      });
-
-      break;
+  if (result.status === "success") {
+    if (!streamedResponse) {
+      console.log(
+        chalk.bold.cyan("Mistral Code:") +
+          modeIndicator +
+          ` ${chalk.white(result.response)}\n`
+      );
     }
 
-    if (iteration >= maxIterations) {
-      stopLoading();
-      console.log(chalk.red("✗ Mistral Code: Maximum iterations reached\n"));
+    if (isPlanMode) {
+      console.log(
+        chalk.gray(
+          "💡 Type '/approve' to approve the plan and start implementation ('/approve 1-3' for some steps), or type your changes to update the plan.\n"
+        )
+      );
     }
-  } catch (error) {
-    stopLoading();
-    console.error(
-      chalk.red.bold("✗ Error:"),
-      chalk.red(error instanceof Error ? error.message : "Unknown error")
+  } else if (result.status === "max_iterations") {
+    console.log(chalk.red("✗ Mistral Code: Maximum iterations reached\n"));
+  } else if (result.status === "budget_exceeded") {
+    console.log(
+      chalk.red(
+        `✗ Mistral Code: ${result.error}. Raise maxSessionCostUsd in settings.json or start a new session to continue.\n`
+      )
+    );
+  } else if (result.error === "No response") {
+    console.log(chalk.red("✗ Mistral Code: No response\n"));
+  } else {
+    console.error(chalk.red.bold("✗ Error:"), chalk.red(result.error));
+  }
+
+  const turnTokens = result.usage.promptTokens + result.usage.completionTokens;
+  if (turnTokens > 0) {
+    console.log(
+      chalk.gray(
+        `   ${formatTokens(turnTokens)} tokens this turn · ~${formatCost(
+          getTotalCost(usageStore)
+        )} this session\n`
+      )
     );
-    conversationHistory.pop();
   }
 
   rl.prompt();
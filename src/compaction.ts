@@ -0,0 +1,257 @@
+import { Mistral } from "@mistralai/mistralai";
+import type { ConversationMessage } from "./agent.js";
+import type { ModelConfig } from "./models.js";
+import type { TokenUsage } from "./usage.js";
+
+// Context windows in tokens; other models can set contextWindow in the
+// `models` section of settings.json
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "mistral-small-latest": 128_000,
+  "mistral-medium-latest": 128_000,
+  "mistral-large-latest": 128_000,
+  "codestral-latest": 256_000,
+  "devstral-small-latest": 128_000,
+  "devstral-medium-latest": 128_000,
+};
+
+// Unknown models are assumed to be small rather than risk overflowing them
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Compaction starts above this share of the context window and aims to get
+// back under the lower one by eliding tool results before summarising
+const COMPACT_THRESHOLD = 0.8;
+const ELISION_TARGET = 0.6;
+
+// Tool results the model is most likely still working with stay intact
+const KEEP_RECENT_TOOL_RESULTS = 4;
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1_500;
+const MAX_TRANSCRIPT_TOOL_RESULT_CHARS = 2_000;
+
+const ELIDED_PREFIX = "[Earlier tool result elided to save context.";
+const SUMMARY_PREFIX =
+  "This conversation was compacted to fit the context window. Summary of the earlier conversation:\n\n";
+const SUMMARY_ACKNOWLEDGEMENT =
+  "Understood. I will continue from this summary.";
+
+const SUMMARY_PROMPT = `You are summarising a conversation between a user and Mistral Code, a coding agent, so that the agent can continue the work with only the summary. Write a concise summary that keeps:
+- What the user asked for, including requirements and preferences they stated
+- Files that were read or changed, with the important details of each change
+- Commands that were run and what their results showed, especially errors
+- Decisions made and the reasons for them
+- What is done and what is still left to do
+
+Leave out pleasantries and output that no longer matters. Do not call tools; answer with the summary only.`;
+
+export type CompactionResult = {
+  // Messages at the start of the history that the summary replaced
+  removed: number;
+  // Messages that replaced them (the summary and its acknowledgement)
+  inserted: number;
+  elided: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  usage?: TokenUsage;
+};
+
+export function getContextWindow(config: ModelConfig): number {
+  return (
+    config.contextWindow ??
+    MODEL_CONTEXT_WINDOWS[config.model] ??
+    DEFAULT_CONTEXT_WINDOW
+  );
+}
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Rough token count of a conversation (about four characters per token),
+ * plus any extra text sent with it such as the system prompt and tool
+ * definitions.
+ */
+export function estimateTokens(
+  messages: ConversationMessage[],
+  extra = ""
+): number {
+  let tokens = estimateTextTokens(extra);
+  for (const message of messages) {
+    tokens += MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content);
+    for (const toolCall of message.toolCalls ?? []) {
+      tokens += estimateTextTokens(
+        toolCall.function.name + toolCall.function.arguments
+      );
+    }
+    tokens += (message.images?.length ?? 0) * IMAGE_TOKENS;
+  }
+  return tokens;
+}
+
+// Providers word this differently; these cover Mistral's and the usual
+// OpenAI-compatible servers' messages
+export function isContextLengthError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    /context length|context window|too many tokens|too (large|long) for/i.test(
+      error.message
+    )
+  );
+}
+
+export function shouldCompact(tokens: number, config: ModelConfig): boolean {
+  return tokens > getContextWindow(config) * COMPACT_THRESHOLD;
+}
+
+/**
+ * Maps a position in the history from before a compaction to the same
+ * message afterwards. Positions inside the summarised part map to the end
+ * of the summary.
+ */
+export function mapHistoryLength(
+  length: number,
+  result: CompactionResult
+): number {
+  return Math.max(length - result.removed, 0) + result.inserted;
+}
+
+// Replaces all but the most recent tool results with a one-line note. The
+// tool calls stay, so the model still knows what it looked at.
+function elideToolResults(history: ConversationMessage[]): number {
+  const toolMessages = history.filter(
+    (message) =>
+      message.role === "tool" && !message.content.startsWith(ELIDED_PREFIX)
+  );
+  const elidable = toolMessages.slice(
+    0,
+    Math.max(0, toolMessages.length - KEEP_RECENT_TOOL_RESULTS)
+  );
+  for (const message of elidable) {
+    const firstLine = message.content.split("\n")[0].slice(0, 100);
+    message.content = `${ELIDED_PREFIX} It began: ${firstLine}]`;
+    delete message.images;
+  }
+  return elidable.length;
+}
+
+function toTranscript(messages: ConversationMessage[]): string {
+  const toolNames = new Map<string, string>();
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      lines.push(`User: ${message.content}`);
+    } else if (message.role === "assistant") {
+      if (message.content) {
+        lines.push(`Assistant: ${message.content}`);
+      }
+      for (const toolCall of message.toolCalls ?? []) {
+        toolNames.set(toolCall.id, toolCall.function.name);
+        lines.push(
+          `Assistant called ${toolCall.function.name}(${toolCall.function.arguments})`
+        );
+      }
+    } else {
+      const name = toolNames.get(message.toolCallId ?? "") ?? "tool";
+      const content =
+        message.content.length > MAX_TRANSCRIPT_TOOL_RESULT_CHARS
+          ? `${message.content.slice(
+              0,
+              MAX_TRANSCRIPT_TOOL_RESULT_CHARS
+            )}\n[... truncated]`
+          : message.content;
+      lines.push(`Result of ${name}: ${content}`);
+    }
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Shrinks the conversation history in place. Old tool results are elided
+ * first; if that is not enough (or `force` is set, as for /compact) the
+ * messages before `keepFrom` are replaced with a summary written by the
+ * model. `keepFrom` must be the index of a user message or the end of the
+ * history so that tool calls are never separated from their results.
+ * Returns null when there was nothing to compact. If the summary request
+ * fails, the history is left untouched.
+ */
+export async function compactConversation(options: {
+  client: Mistral;
+  modelConfig: ModelConfig;
+  conversationHistory: ConversationMessage[];
+  keepFrom: number;
+  // Tokens sent with every request besides the history
+  extraTokens?: number;
+  instructions?: string;
+  force?: boolean;
+}): Promise<CompactionResult | null> {
+  const { client, modelConfig, conversationHistory, keepFrom } = options;
+  const extraTokens = options.extraTokens ?? 0;
+  const tokensBefore = estimateTokens(conversationHistory) + extraTokens;
+
+  // Changes are made to copies and only applied once nothing can fail, so
+  // the history never diverges from the session transcript
+  const compacted = conversationHistory.map((message) => ({ ...message }));
+  const elided = elideToolResults(compacted);
+  let tokensAfter = estimateTokens(compacted) + extraTokens;
+  const result: CompactionResult = {
+    removed: 0,
+    inserted: 0,
+    elided,
+    tokensBefore,
+    tokensAfter,
+  };
+  if (
+    keepFrom === 0 ||
+    (!options.force &&
+      tokensAfter <= getContextWindow(modelConfig) * ELISION_TARGET)
+  ) {
+    if (elided === 0) {
+      return null;
+    }
+    conversationHistory.splice(0, conversationHistory.length, ...compacted);
+    return result;
+  }
+
+  const response = await client.chat.complete({
+    model: modelConfig.model,
+    temperature: modelConfig.temperature,
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        // Written from the results as they were before elision
+        content: `${toTranscript(conversationHistory.slice(0, keepFrom))}${
+          options.instructions
+            ? `\n\nWhen summarising, follow these instructions: ${options.instructions}`
+            : ""
+        }`,
+      },
+    ],
+  });
+  const content = response.choices?.[0]?.message?.content;
+  const summary = (typeof content === "string" ? content : "").trim();
+  if (!summary) {
+    throw new Error("The model returned an empty summary");
+  }
+
+  compacted.splice(
+    0,
+    keepFrom,
+    { role: "user", content: SUMMARY_PREFIX + summary },
+    { role: "assistant", content: SUMMARY_ACKNOWLEDGEMENT }
+  );
+  conversationHistory.splice(0, conversationHistory.length, ...compacted);
+  tokensAfter = estimateTokens(conversationHistory) + extraTokens;
+  return {
+    ...result,
+    removed: keepFrom,
+    inserted: 2,
+    tokensAfter,
+    usage: response.usage && {
+      promptTokens: response.usage.promptTokens ?? 0,
+      completionTokens: response.usage.completionTokens ?? 0,
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getProjectRoot } from "./memory.js";
+import { loadUserSettings, updateUserSettings } from "./settings.js";
+
+export type CustomCommand = {
+  // Without the leading slash; files in subdirectories are namespaced as
+  // "<directory>:<file>"
+  name: string;
+  scope: "project" | "user";
+  filePath: string;
+  description: string;
+  argumentHint?: string;
+  // Permission rules allowed without asking while the command runs
+  allowedTools: string[];
+  model?: string;
+  template: string;
+};
+
+// Asks the user whether a project command may allow its rules without asking
+export type ConfirmAllowedTools = (command: CustomCommand) => Promise<boolean>;
+
+export function getUserCommandsDirectory(): string {
+  return path.join(os.homedir(), ".mistral-code", "commands");
+}
+
+export function getProjectCommandsDirectory(
+  cwd: string = process.cwd()
+): string {
+  return path.join(getProjectRoot(cwd), ".mistral-code", "commands");
+}
+
+function parseList(value: string): string[] {
+  const trimmed = value.trim().replace(/^\[(.*)\]$/, "$1");
+  // Rules such as run_command(git add:*) may contain commas inside parens
+  return (trimmed.match(/(?:[^,(]|\([^)]*\))+/g) ?? [])
+    .map((item) => item.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+}
+
+// Only the flat `key: value` subset of YAML that command files need
+function parseFrontmatter(content: string): {
+  attributes: Record<string, string>;
+  body: string;
+} {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: content };
+  }
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator === -1 || line.trimStart().startsWith("#")) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line
+      .slice(separator + 1)
+      .trim()
+      .replace(/^(["'])(.*)\1$/, "$2");
+    attributes[key] = value;
+  }
+  return { attributes, body: content.slice(match[0].length) };
+}
+
+function readCommandFile(
+  filePath: string,
+  name: string,
+  scope: CustomCommand["scope"]
+): CustomCommand | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+  const { attributes, body } = parseFrontmatter(content);
+  const template = body.trim();
+  const firstLine = template.split("\n")[0].replace(/^#+\s*/, "");
+  return {
+    name,
+    scope,
+    filePath,
+    description: attributes.description || firstLine.slice(0, 80),
+    argumentHint: attributes["argument-hint"] || undefined,
+    allowedTools: parseList(attributes["allowed-tools"] ?? ""),
+    model: attributes.model || undefined,
+    template,
+  };
+}
+
+function readCommandsDirectory(
+  directory: string,
+  scope: CustomCommand["scope"],
+  namespace: string[] = []
+): CustomCommand[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const commands: CustomCommand[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      commands.push(
+        ...readCommandsDirectory(entryPath, scope, [...namespace, entry.name])
+      );
+    } else if (entry.isFile() && entry.name.endsWith(".md")) {
+      const name = [...namespace, entry.name.slice(0, -3)].join(":");
+      const command = readCommandFile(entryPath, name, scope);
+      if (command) {
+        commands.push(command);
+      }
+    }
+  }
+  return commands;
+}
+
+/**
+ * Loads the custom slash commands from `~/.mistral-code/commands` and the
+ * project's `.mistral-code/commands`, sorted by name. A project command
+ * replaces a user command of the same name. Files are re-read on every call
+ * so new commands are available without restarting.
+ */
+export function loadCustomCommands(
+  cwd: string = process.cwd()
+): CustomCommand[] {
+  const commands = new Map<string, CustomCommand>();
+  for (const command of [
+    ...readCommandsDirectory(getUserCommandsDirectory(), "user"),
+    ...readCommandsDirectory(getProjectCommandsDirectory(cwd), "project"),
+  ]) {
+    commands.set(command.name, command);
+  }
+  return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Splits "/name args" and returns the matching custom command, if any.
+ */
+export function findCustomCommand(
+  input: string,
+  cwd: string = process.cwd()
+): { command: CustomCommand; args: string } | null {
+  const match = input.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+  const command = loadCustomCommands(cwd).find(
+    (candidate) => candidate.name === match[1]
+  );
+  return command ? { command, args: (match[2] ?? "").trim() } : null;
+}
+
+function getFingerprint(rules: string[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify(rules))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * The permission rules to allow while the command runs. A project command's
+ * `allowed-tools` come from the working tree, so they only apply once the
+ * user has approved them through `confirm`; the answer is remembered in the
+ * user settings until the rules change. Without `confirm` (as in
+ * non-interactive mode) unapproved rules are left out.
+ */
+export async function getCommandAllowedTools(
+  command: CustomCommand,
+  confirm?: ConfirmAllowedTools,
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  if (command.scope === "user" || command.allowedTools.length === 0) {
+    return command.allowedTools;
+  }
+  const project = getProjectRoot(cwd);
+  const fingerprint = getFingerprint(command.allowedTools);
+  const answer =
+    loadUserSettings().commands?.projectAllowedTools?.[project]?.[command.name];
+  let approved =
+    answer?.fingerprint === fingerprint ? answer.approved : undefined;
+  if (approved === undefined && confirm) {
+    approved = await confirm(command);
+    const answered = approved;
+    updateUserSettings((settings) => {
+      const commands = (settings.commands = settings.commands ?? {});
+      const projects = (commands.projectAllowedTools =
+        commands.projectAllowedTools ?? {});
+      const commandAnswers = (projects[project] = projects[project] ?? {});
+      commandAnswers[command.name] = { approved: answered, fingerprint };
+    });
+  }
+  return approved ? command.allowedTools : [];
+}
+
+// Whitespace-separated, with "double" or 'single' quotes grouping words
+function splitArguments(args: string): string[] {
+  return (args.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((arg) =>
+    arg.replace(/^(["'])(.*)\1$/, "$2")
+  );
+}
+
+/**
+ * Fills in the command's template: `$ARGUMENTS` becomes everything after the
+ * command name and `$1`, `$2`, ... the individual arguments. Arguments given
+ * to a template without placeholders are appended to it.
+ */
+export function expandCustomCommand(
+  command: CustomCommand,
+  args: string
+): string {
+  const positional = splitArguments(args);
+  const hasPlaceholders = /\$ARGUMENTS|\$\d/.test(command.template);
+  // One pass, so that a "$1" inside the arguments is left alone
+  const expanded = command.template.replace(
+    /\$(ARGUMENTS|\d+)/g,
+    (_, key: string) =>
+      key === "ARGUMENTS" ? args : positional[Number(key) - 1] ?? ""
+  );
+  if (!hasPlaceholders && args) {
+    return `${expanded}\n\nArguments: ${args}`;
+  }
+  return expanded;
+}
@@ -0,0 +1,241 @@
+import chalk from "chalk";
+
+export type DiffLine = {
+  type: "context" | "add" | "remove";
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+// Beyond this many cells the changed region is shown as a full replacement
+// instead of running the quadratic LCS table
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(content: string): string[] {
+  if (content === "") {
+    return [];
+  }
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  const middle: DiffLine[] = [];
+
+  if (n * m > MAX_LCS_CELLS) {
+    middle.push(
+      ...oldMiddle.map((content): DiffLine => ({ type: "remove", content })),
+      ...newMiddle.map((content): DiffLine => ({ type: "add", content }))
+    );
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i:] and newMiddle[j:]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * (m + 1) + j],
+                lengths[i * (m + 1) + j + 1]
+              );
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: "context", content: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (
+        i < n &&
+        (j === m ||
+          lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])
+      ) {
+        middle.push({ type: "remove", content: oldMiddle[i] });
+        i++;
+      } else {
+        middle.push({ type: "add", content: newMiddle[j] });
+        j++;
+      }
+    }
+  }
+
+  const lines: DiffLine[] = [
+    ...oldLines
+      .slice(0, prefix)
+      .map((content): DiffLine => ({ type: "context", content })),
+    ...middle,
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map((content): DiffLine => ({ type: "context", content })),
+  ];
+
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  for (const line of lines) {
+    if (line.type !== "add") {
+      line.oldLineNumber = oldLineNumber++;
+    }
+    if (line.type !== "remove") {
+      line.newLineNumber = newLineNumber++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Computes the hunks of a unified diff between two file contents, keeping
+ * `contextLines` unchanged lines around each change.
+ */
+export function computeDiff(
+  oldContent: string,
+  newContent: string,
+  contextLines = 3
+): DiffHunk[] {
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] | null = null;
+  let trailingContext = 0;
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+    // Drop context beyond the allowed trailing lines
+    current.splice(
+      current.length - Math.max(0, trailingContext - contextLines)
+    );
+    const first = current[0];
+    const oldLines = current.filter((line) => line.type !== "add").length;
+    const newLines = current.filter((line) => line.type !== "remove").length;
+    const firstOld = current.find((line) => line.oldLineNumber !== undefined);
+    const firstNew = current.find((line) => line.newLineNumber !== undefined);
+    hunks.push({
+      oldStart: firstOld?.oldLineNumber ?? (first.newLineNumber ?? 1) - 1,
+      oldLines,
+      newStart: firstNew?.newLineNumber ?? (first.oldLineNumber ?? 1) - 1,
+      newLines,
+      lines: current,
+    });
+    current = null;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      if (current) {
+        current.push(line);
+        trailingContext++;
+        if (trailingContext > contextLines * 2) {
+          flush();
+        }
+      }
+      return;
+    }
+    if (!current) {
+      current = lines
+        .slice(Math.max(0, index - contextLines), index)
+        .filter((candidate) => candidate.type === "context");
+    }
+    current.push(line);
+    trailingContext = 0;
+  });
+  flush();
+
+  return hunks;
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Renders hunks as a colored unified diff with old and new line numbers in
+ * the gutter. New files are shown as a diff where every line is added.
+ */
+export function renderDiff(
+  filePath: string,
+  hunks: DiffHunk[],
+  isNewFile = false
+): string {
+  const added = hunks.reduce(
+    (count, hunk) =>
+      count + hunk.lines.filter((line) => line.type === "add").length,
+    0
+  );
+  const removed = hunks.reduce(
+    (count, hunk) =>
+      count + hunk.lines.filter((line) => line.type === "remove").length,
+    0
+  );
+  const width = String(
+    Math.max(
+      1,
+      ...hunks.map((hunk) =>
+        Math.max(hunk.oldStart + hunk.oldLines, hunk.newStart + hunk.newLines)
+      )
+    )
+  ).length;
+
+  const output = [
+    chalk.bold(
+      `${isNewFile ? "Created" : "Updated"} ${filePath} ` +
+        chalk.green(`+${added}`) +
+        " " +
+        chalk.red(`-${removed}`)
+    ),
+  ];
+  if (hunks.length === 0) {
+    output.push(chalk.gray("   (no changes)"));
+  }
+  for (const hunk of hunks) {
+    output.push(chalk.cyan(formatHunkHeader(hunk)));
+    for (const line of hunk.lines) {
+      const oldNumber = String(line.oldLineNumber ?? "").padStart(width);
+      const newNumber = String(line.newLineNumber ?? "").padStart(width);
+      const gutter = chalk.gray(`${oldNumber} ${newNumber} │`);
+      if (line.type === "add") {
+        output.push(`${gutter}${chalk.green(`+${line.content}`)}`);
+      } else if (line.type === "remove") {
+        output.push(`${gutter}${chalk.red(`-${line.content}`)}`);
+      } else {
+        output.push(`${gutter}${chalk.gray(` ${line.content}`)}`);
+      }
+    }
+  }
+  return output.join("\n");
+}
@@ -0,0 +1,143 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import { getShellSessionCwd } from "./processes.js";
+import { findGitRoot, getWorkspaceRoots } from "./workspace.js";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 3000;
+const MAX_STATUS_LINES = 40;
+const RECENT_COMMITS = 5;
+
+// Scripts worth telling the model about, so it does not have to ask how to
+// verify its changes
+const SCRIPT_PATTERN =
+  /^(test|lint|typecheck|type-check|check|build|format)(:|$)/;
+const MAX_SCRIPTS = 15;
+
+const LOCKFILES: Array<[string, string]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+async function git(args: string[], cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 1024 * 1024,
+    });
+    return stdout.trimEnd();
+  } catch {
+    return null;
+  }
+}
+
+async function describeGit(root: string): Promise<string[]> {
+  const [branch, status, log] = await Promise.all([
+    git(["rev-parse", "--abbrev-ref", "HEAD"], root),
+    git(["status", "--short"], root),
+    git(["log", "--oneline", `-${RECENT_COMMITS}`], root),
+  ]);
+  const lines: string[] = [];
+  if (branch) {
+    lines.push(`Current branch: ${branch}`);
+  }
+  if (status !== null) {
+    const statusLines = status ? status.split("\n") : [];
+    lines.push(
+      "",
+      "Git status (a snapshot from the start of this turn):",
+      statusLines.length === 0
+        ? "(clean)"
+        : statusLines.slice(0, MAX_STATUS_LINES).join("\n")
+    );
+    if (statusLines.length > MAX_STATUS_LINES) {
+      lines.push(
+        `... and ${statusLines.length - MAX_STATUS_LINES} more changed files`
+      );
+    }
+  }
+  if (log) {
+    lines.push("", "Recent commits:", log);
+  }
+  return lines;
+}
+
+function describePackage(root: string): string[] {
+  let packageJson: {
+    packageManager?: string;
+    scripts?: Record<string, string>;
+  };
+  try {
+    packageJson = JSON.parse(
+      fs.readFileSync(path.join(root, "package.json"), "utf-8")
+    );
+  } catch {
+    return [];
+  }
+
+  const packageManager =
+    packageJson.packageManager?.split("@")[0] ??
+    LOCKFILES.find(([lockfile]) =>
+      fs.existsSync(path.join(root, lockfile))
+    )?.[1] ??
+    "npm";
+  const scripts = Object.entries(packageJson.scripts ?? {})
+    .filter(([name]) => SCRIPT_PATTERN.test(name))
+    .slice(0, MAX_SCRIPTS);
+
+  const lines = ["", `Package manager: ${packageManager}`];
+  if (scripts.length > 0) {
+    lines.push(
+      "Scripts from package.json:",
+      ...scripts.map(
+        ([name, command]) => `- ${packageManager} run ${name}: ${command}`
+      )
+    );
+  }
+  return lines;
+}
+
+/**
+ * Describes where the agent is running: directories, platform, date, a git
+ * snapshot and the project's package manager and scripts. Built fresh for
+ * every turn so it follows branch switches and new commits.
+ */
+export async function getEnvironmentContext(
+  cwd: string = process.cwd()
+): Promise<string> {
+  const gitRoot = findGitRoot(cwd);
+  const root = gitRoot ?? cwd;
+  const lines = [
+    `Working directory: ${cwd}`,
+    `Is a git repository: ${gitRoot ? "yes" : "no"}`,
+  ];
+  const shellCwd = getShellSessionCwd();
+  if (shellCwd && shellCwd !== cwd) {
+    lines.push(`Shell session working directory: ${shellCwd}`);
+  }
+  const otherRoots = getWorkspaceRoots().filter(
+    (workspaceRoot) => workspaceRoot !== root
+  );
+  if (otherRoots.length > 0) {
+    lines.push(`Additional workspace directories: ${otherRoots.join(", ")}`);
+  }
+  lines.push(
+    `Platform: ${process.platform} (${os.release()})`,
+    `Today's date: ${new Date().toISOString().slice(0, 10)}`
+  );
+
+  if (gitRoot) {
+    lines.push(...(await describeGit(gitRoot)));
+  }
+  lines.push(...describePackage(root));
+
+  return `\n\n# Environment\n\n${lines.join("\n")}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Converts a glob pattern to a regular expression matched against
+ * forward-slash separated relative paths. Supports `**` (any number of
+ * directories), `*` (anything but a slash), `?`, `[abc]` and `[!abc]`
+ * character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" also matches zero directories
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && findClassEnd(pattern, i) !== -1) {
+      const end = findClassEnd(pattern, i);
+      let body = pattern.slice(i + 1, end);
+      // Like `?`, a class never matches the slash between directories
+      let negated = false;
+      if (body[0] === "!" || body[0] === "^") {
+        negated = true;
+        body = body.slice(1);
+      }
+      const escaped = body.replace(/[\\\]^[]/g, "\\$&");
+      source += negated ? `[^/${escaped}]` : `[${escaped}]`;
+      i = end;
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Index of the `]` closing the class opened at `start`, or -1 when the
+// bracket is a literal. A `]` first in the class is part of it, as in `[]a]`.
+function findClassEnd(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    i++;
+  }
+  if (pattern[i] === "]") {
+    i++;
+  }
+  const end = pattern.indexOf("]", i);
+  return end === -1 || pattern.slice(start, end).includes("/") ? -1 : end;
+}
+
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.split("\\").join("/");
+  // Patterns without a slash match the file name at any depth
+  if (!pattern.includes("/")) {
+    const name = normalized.slice(normalized.lastIndexOf("/") + 1);
+    return globToRegExp(pattern).test(name);
+  }
+  return globToRegExp(pattern.replace(/^\.\//, "")).test(normalized);
+}
@@ -0,0 +1,104 @@
+import { Mistral } from "@mistralai/mistralai";
+import {
+  runAgentTurn,
+  type AgentEvent,
+  type ConversationMessage,
+} from "./agent.js";
+import { getModel } from "./models.js";
+import type { CanUseTool } from "./permissions.js";
+import type { Session } from "./session.js";
+import { getTotalCost, type UsageStore } from "./usage.js";
+
+export const OUTPUT_FORMATS = ["text", "json", "stream-json"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type HeadlessOptions = {
+  client: Mistral;
+  systemPrompt: string;
+  conversationHistory: ConversationMessage[];
+  session: Session;
+  prompt: string;
+  planMode: boolean;
+  model?: string;
+  canUseTool: CanUseTool;
+  outputFormat: OutputFormat;
+  usageStore?: UsageStore;
+};
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function writeJsonLine(value: unknown): void {
+  process.stdout.write(JSON.stringify(value) + "\n");
+}
+
+/**
+ * Runs a single agent turn without the REPL and prints the outcome in the
+ * requested format. Resolves to the process exit code: 0 when the model
+ * produced an answer, 1 on errors or when the iteration limit was reached.
+ */
+export async function runHeadless(options: HeadlessOptions): Promise<number> {
+  const { outputFormat, session } = options;
+
+  if (outputFormat === "stream-json") {
+    writeJsonLine({
+      type: "system",
+      session_id: session.id,
+      model: options.model ?? getModel(options.planMode),
+    });
+  }
+
+  const result = await runAgentTurn({
+    client: options.client,
+    systemPrompt: options.systemPrompt,
+    conversationHistory: options.conversationHistory,
+    session,
+    userMessage: options.prompt,
+    planMode: options.planMode,
+    model: options.model,
+    canUseTool: options.canUseTool,
+    usageStore: options.usageStore,
+    onEvent: (event: AgentEvent) => {
+      if (outputFormat === "stream-json") {
+        writeJsonLine(event);
+      } else if (outputFormat === "text" && event.type === "tool_error") {
+        process.stderr.write(`✗ ${event.message}\n`);
+      }
+    },
+  });
+
+  const isError = result.status !== "success";
+
+  if (outputFormat === "text") {
+    if (isError) {
+      process.stderr.write(`✗ Error: ${result.error}\n`);
+    } else {
+      process.stdout.write(result.response + "\n");
+    }
+  } else {
+    writeJsonLine({
+      type: "result",
+      subtype: result.status,
+      is_error: isError,
+      result: result.response,
+      ...(result.error ? { error: result.error } : {}),
+      session_id: session.id,
+      iterations: result.iterations,
+      usage: {
+        prompt_tokens: result.usage.promptTokens,
+        completion_tokens: result.usage.completionTokens,
+      },
+      ...(options.usageStore
+        ? { cost_usd: getTotalCost(options.usageStore) }
+        : {}),
+    });
+  }
+
+  return isError ? 1 : 0;
+}
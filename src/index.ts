@@ -2,14 +2,132 @@
 
 import { Mistral } from "@mistralai/mistralai";
 import chalk from "chalk";
+import { Command, InvalidArgumentError, Option } from "commander";
 import "dotenv/config";
 import gradient from "gradient-string";
+import * as os from "os";
 import * as readline from "readline";
-import { processCommand } from "./commands.js";
-import { SYSTEM_PROMPT } from "./prompt.js";
+import type { ConversationMessage } from "./agent.js";
+import { createCheckpointStore } from "./checkpoints.js";
+import { completeCommand, processCommand } from "./commands.js";
+import {
+  expandCustomCommand,
+  findCustomCommand,
+  getCommandAllowedTools,
+} from "./customCommands.js";
+import {
+  OUTPUT_FORMATS,
+  readStdin,
+  runHeadless,
+  type OutputFormat,
+} from "./headless.js";
+import {
+  closeMcpServers,
+  connectMcpServers,
+  type McpServerEntry,
+} from "./mcp.js";
+import { displayMemoryPath, loadMemoryFiles } from "./memory.js";
+import { configureModels, getModel, getModelConfig } from "./models.js";
+import { createPermissionChecker } from "./permissions.js";
+import { getPlan, renderPlan, setPlan } from "./plan.js";
+import {
+  interruptForegroundCommands,
+  killAllBackgroundProcesses,
+  resetShellSession,
+} from "./processes.js";
+import { buildSystemPrompt, SYSTEM_PROMPT } from "./prompt.js";
+import {
+  appendSessionEntry,
+  createSession,
+  loadLatestSession,
+  loadSession,
+  type LoadedSession,
+  type Session,
+} from "./session.js";
+import { loadSettings } from "./settings.js";
+import { hasUnfinishedTodos, renderTodos, setTodos } from "./todos.js";
+import { createUsageStore, formatUsageSummary } from "./usage.js";
+import { configureWorkspace } from "./workspace.js";
+
+function parseBudget(value: string): number {
+  const amount = Number(value);
+  if (value.trim() === "" || !Number.isFinite(amount) || amount < 0) {
+    throw new InvalidArgumentError("Expected a non-negative amount in USD.");
+  }
+  return amount;
+}
+
+const program = new Command()
+  .name("mistral-code")
+  .description("A CLI agent powered by Mistral AI")
+  .option(
+    "-c, --continue",
+    "Continue the most recent session in the current directory"
+  )
+  .option("-r, --resume <id>", "Resume a saved session by id")
+  .option(
+    "-p, --prompt [prompt]",
+    "Run a single prompt non-interactively and print the result (reads stdin when piped)"
+  )
+  .option(
+    "--add-dir <directories...>",
+    "Additional directories the file tools may access"
+  )
+  .option(
+    "--allowed-tools <rules...>",
+    'Permission rules to allow without asking, e.g. "run_command(npm test:*)"'
+  )
+  .option(
+    "--disallowed-tools <rules...>",
+    'Permission rules to always deny, e.g. "edit_file(src/**)"'
+  )
+  .option(
+    "-m, --model <model>",
+    "Model to use, e.g. codestral-latest (overrides settings.json)"
+  )
+  .option("--plan-model <model>", "Model to use in plan mode")
+  .option(
+    "--max-budget-usd <amount>",
+    "Stop calling the model once the session's estimated cost reaches this",
+    parseBudget
+  )
+  .addOption(
+    new Option("--output-format <format>", "Output format for --prompt")
+      .choices(OUTPUT_FORMATS)
+      .default("text")
+  )
+  .parse();
+
+const options = program.opts<{
+  continue?: boolean;
+  resume?: string;
+  prompt?: string | true;
+  addDir?: string[];
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  model?: string;
+  planModel?: string;
+  maxBudgetUsd?: number;
+  outputFormat: OutputFormat;
+}>();
+
+configureWorkspace({ additionalDirectories: options.addDir });
+configureModels({ model: options.model, planModel: options.planModel });
+
+const permissionRules = {
+  allow: options.allowedTools ?? [],
+  deny: options.disallowedTools ?? [],
+};
+
+// Piped input always runs a single turn instead of the interactive REPL
+const isHeadless = options.prompt !== undefined || !process.stdin.isTTY;
 
 const apiKey = process.env.MISTRAL_API_KEY || "";
-if (!apiKey) {
+// Models served from their own serverURL do not need a Mistral API key
+const usesMistralApi = [false, true].some(
+  (mode) => !getModelConfig(mode).serverURL
+);
+if (!apiKey && usesMistralApi) {
   console.error(
     chalk.red.bold("✗ Error: MISTRAL_API_KEY environment variable is required")
   );
@@ -25,52 +143,295 @@ const systemPrompt = SYSTEM_PROMPT;
 
 const client = new Mistral({ apiKey });
 
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-  prompt: "> ",
-});
+const conversationHistory: ConversationMessage[] = [];
 
-const conversationHistory: Array<{
-  role: "user" | "assistant" | "tool";
-  content: string;
-  toolCallId?: string;
-  toolCalls?: Array<{
-    id: string;
-    type: string;
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
-}> = [];
+const usageStore = createUsageStore({
+  budgetUsd: options.maxBudgetUsd ?? loadSettings().maxSessionCostUsd,
+});
 
 let planMode = false;
+let session: Session = createSession();
+let resumed: LoadedSession | null = null;
+
+if (options.resume || options.continue) {
+  try {
+    resumed = options.resume
+      ? loadSession(options.resume)
+      : loadLatestSession();
+  } catch (error) {
+    console.error(
+      chalk.red.bold("✗ Error:"),
+      chalk.red(error instanceof Error ? error.message : "Unknown error")
+    );
+    process.exit(1);
+  }
+  if (resumed) {
+    session = resumed.session;
+    conversationHistory.push(...resumed.conversationHistory);
+    planMode = resumed.planMode;
+    setPlan(resumed.plan);
+    setTodos(resumed.todos);
+  }
+}
 
 const mistralGradient = gradient(["#ffd800", "#ffaf00", "#ff8203", "#e10300"]);
-console.log(
-  mistralGradient.multiline(`        
+const banner = mistralGradient.multiline(`        
 ▗▖  ▗▖▗▄▄▄▖ ▗▄▄▖▗▄▄▄▖▗▄▄▖  ▗▄▖ ▗▖        ▗▄▄▖ ▗▄▖ ▗▄▄▄ ▗▄▄▄▖
 ▐▛▚▞▜▌  █  ▐▌     █  ▐▌ ▐▌▐▌ ▐▌▐▌       ▐▌   ▐▌ ▐▌▐▌  █▐▌   
 ▐▌  ▐▌  █   ▝▀▚▖  █  ▐▛▀▚▖▐▛▀▜▌▐▌       ▐▌   ▐▌ ▐▌▐▌  █▐▛▀▀▘
 ▐▌  ▐▌▗▄█▄▖▗▄▄▞▘  █  ▐▌ ▐▌▐▌ ▐▌▐▙▄▄▖    ▝▚▄▄▖▝▚▄▞▘▐▙▄▄▀▐▙▄▄▖
-`)
-);
-console.log(
-  chalk.gray('Type your commands (or "help" for help, "exit" to quit)\n')
-);
-rl.prompt();
-
-rl.on("line", (input) => {
-  processCommand(input, client, systemPrompt, conversationHistory, rl, {
-    getPlanMode: () => planMode,
-    setPlanMode: (mode: boolean) => {
-      planMode = mode;
-    },
+`);
+
+async function startHeadless(): Promise<void> {
+  const piped = process.stdin.isTTY ? "" : await readStdin();
+  const prompt = [
+    typeof options.prompt === "string" ? options.prompt : "",
+    piped,
+  ]
+    .filter((part) => part.trim())
+    .join("\n\n");
+  if (!prompt) {
+    console.error(
+      chalk.red.bold("✗ Error:"),
+      chalk.red("No prompt provided via --prompt or stdin")
+    );
+    process.exit(1);
+  }
+
+  for (const server of await connectMcpServers()) {
+    if (server.status === "failed") {
+      console.error(
+        chalk.yellow(
+          `⚠ MCP server ${server.name} failed to connect: ${server.error}`
+        )
+      );
+    } else if (server.status === "not_approved") {
+      console.error(
+        chalk.yellow(`⚠ MCP server ${server.name} skipped: ${server.error}`)
+      );
+    }
+  }
+
+  // -p "/review src" runs a custom command just like the REPL does
+  const custom = findCustomCommand(prompt);
+  const customAllowedTools = custom
+    ? await getCommandAllowedTools(custom.command)
+    : [];
+  if (
+    custom &&
+    customAllowedTools.length < custom.command.allowedTools.length
+  ) {
+    console.error(
+      chalk.yellow(
+        `⚠ allowed-tools of the project command /${custom.command.name} ignored: run it once interactively to approve them`
+      )
+    );
+  }
+  const exitCode = await runHeadless({
+    client,
+    systemPrompt: await buildSystemPrompt(systemPrompt),
+    conversationHistory,
+    session,
+    prompt: custom ? expandCustomCommand(custom.command, custom.args) : prompt,
+    planMode,
+    model: custom?.command.model,
+    canUseTool: createPermissionChecker({
+      sessionRules: {
+        ...permissionRules,
+        allow: [...permissionRules.allow, ...customAllowedTools],
+      },
+    }),
+    outputFormat: options.outputFormat,
+    usageStore,
   });
-});
+  killAllBackgroundProcesses();
+  resetShellSession();
+  await closeMcpServers();
+  process.exit(exitCode);
+}
 
-rl.on("close", () => {
-  console.log(chalk.cyan("\n👋 Session ended."));
-  process.exit(0);
+async function startRepl(): Promise<void> {
+  const checkpointStore = createCheckpointStore();
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "> ",
+    completer: completeCommand,
+  });
+
+  console.log(banner);
+  console.log(
+    chalk.gray('Type your commands (or "help" for help, "exit" to quit)\n')
+  );
+  console.log(
+    chalk.gray(
+      `Model: ${getModel(false)}${
+        getModel(true) !== getModel(false)
+          ? ` (plan mode: ${getModel(true)})`
+          : ""
+      }\n`
+    )
+  );
+  if (resumed) {
+    console.log(
+      chalk.green(
+        `✓ Resumed session ${session.id} (${conversationHistory.length} messages)\n`
+      )
+    );
+    if (planMode) {
+      console.log(chalk.yellow("📋 [PLAN MODE ACTIVE]\n"));
+    }
+    const plan = getPlan();
+    if (plan) {
+      console.log(renderPlan(plan) + "\n");
+    }
+    if (hasUnfinishedTodos(resumed.todos)) {
+      console.log(renderTodos(resumed.todos) + "\n");
+    }
+  } else if (options.continue) {
+    console.log(
+      chalk.yellow("ℹ No previous session found - starting a new one.\n")
+    );
+  }
+  const memoryFiles = await loadMemoryFiles();
+  if (memoryFiles.length > 0) {
+    console.log(
+      chalk.gray(
+        `Memory: ${memoryFiles
+          .map((file) => displayMemoryPath(file))
+          .join(", ")}\n`
+      )
+    );
+  }
+
+  // Anyone can commit a .mistral-code/mcp.json, and connecting to a stdio
+  // server runs its command, so project servers are approved one by one
+  const confirmMcpServer = async (entry: McpServerEntry): Promise<boolean> => {
+    const { config } = entry;
+    console.log(
+      chalk.yellow.bold(
+        `⚠ This project's .mistral-code/mcp.json adds the MCP server ${entry.name}`
+      )
+    );
+    console.log(
+      chalk.white(
+        "url" in config
+          ? `   ${config.url}`
+          : `   $ ${[config.command, ...(config.args ?? [])].join(" ")}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        "   Connecting runs or contacts it with your environment; only approve servers you trust.\n"
+      )
+    );
+    while (true) {
+      const answer = (
+        await new Promise<string>((resolve) =>
+          rl.question(chalk.yellow("Connect to it? (y/n) "), resolve)
+        )
+      )
+        .trim()
+        .toLowerCase();
+      if (answer === "y" || answer === "yes") {
+        return true;
+      }
+      if (answer === "n" || answer === "no") {
+        return false;
+      }
+    }
+  };
+  const mcpServers = await connectMcpServers({ confirm: confirmMcpServer });
+  for (const server of mcpServers) {
+    if (server.status === "connected") {
+      console.log(
+        chalk.green(
+          `✓ MCP server ${server.name} connected (${server.tools.length} tools)`
+        )
+      );
+    } else if (server.status === "not_approved") {
+      console.log(
+        chalk.gray(`ℹ MCP server ${server.name} skipped: ${server.error}`)
+      );
+    } else {
+      console.log(
+        chalk.yellow(
+          `⚠ MCP server ${server.name} failed to connect: ${server.error}`
+        )
+      );
+    }
+  }
+  if (mcpServers.length > 0) {
+    console.log();
+  }
+  rl.prompt();
+
+  rl.on("line", (input) => {
+    processCommand(
+      input,
+      client,
+      systemPrompt,
+      conversationHistory,
+      rl,
+      {
+        getPlanMode: () => planMode,
+        setPlanMode: (mode: boolean) => {
+          planMode = mode;
+          appendSessionEntry(session, { type: "plan_mode", planMode: mode });
+        },
+      },
+      {
+        getSession: () => session,
+        setSession: (newSession: Session) => {
+          session = newSession;
+        },
+      },
+      permissionRules,
+      checkpointStore,
+      usageStore
+    );
+  });
+
+  // Ctrl+C stops a running command; otherwise it exits as before
+  rl.on("SIGINT", () => {
+    if (interruptForegroundCommands()) {
+      console.log(chalk.yellow("\n⚠ Interrupted the running command"));
+    } else {
+      rl.close();
+    }
+  });
+
+  rl.on("close", () => {
+    console.log(chalk.cyan("\n👋 Session ended."));
+    if (usageStore.byModel.size > 0) {
+      for (const line of formatUsageSummary(usageStore)) {
+        console.log(chalk.gray(`   ${line}`));
+      }
+    }
+    killAllBackgroundProcesses();
+    resetShellSession();
+    closeMcpServers().finally(() => process.exit(0));
+  });
+}
+
+// Commands and background processes run in their own process groups, so
+// they outlive the CLI unless they are stopped on the way out. In the REPL,
+// readline turns Ctrl+C into its own SIGINT event instead.
+for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"] as const) {
+  process.on(signal, () => {
+    interruptForegroundCommands();
+    killAllBackgroundProcesses();
+    resetShellSession();
+    process.exit(128 + os.constants.signals[signal]);
+  });
+}
+
+(isHeadless ? startHeadless() : startRepl()).catch((error) => {
+  console.error(
+    chalk.red.bold("✗ Error:"),
+    chalk.red(error instanceof Error ? error.message : "Unknown error")
+  );
+  killAllBackgroundProcesses();
+  resetShellSession();
+  process.exit(1);
 });
@@ -0,0 +1,403 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { JsonSchema } from "./schema.js";
+import { loadUserSettings, updateUserSettings } from "./settings.js";
+import { defineTool, registerTool, type ToolContext } from "./tools.js";
+
+export type McpServerConfig = (
+  | {
+      type?: "stdio";
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+    }
+  | {
+      type: "http" | "sse";
+      url: string;
+      headers?: Record<string, string>;
+    }
+) & {
+  // Tools (by their name on the server) that run without asking and are
+  // offered in plan mode; the server's own annotations are not trusted
+  readOnlyTools?: string[];
+  // How long a tool call may take before it is cancelled
+  toolTimeoutMs?: number;
+};
+
+export type McpServerEntry = {
+  name: string;
+  // Project servers come from the working tree and need the user's approval
+  scope: "user" | "project";
+  config: McpServerConfig;
+};
+
+// Asks the user whether to connect to a project server for the first time
+export type ConfirmMcpServer = (entry: McpServerEntry) => Promise<boolean>;
+
+export type McpConfig = {
+  mcpServers?: Record<string, McpServerConfig>;
+};
+
+export type McpTransportType = "stdio" | "http" | "sse";
+
+export type McpServer = {
+  name: string;
+  transport: McpTransportType;
+  status: "connected" | "failed" | "not_approved";
+  error?: string;
+  tools: Array<{ name: string; description: string }>;
+};
+
+export const MCP_TOOL_PREFIX = "mcp__";
+
+const CONNECT_TIMEOUT_MS = 30_000;
+const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+const MAX_TOOL_NAME_LENGTH = 64;
+
+let servers: McpServer[] = [];
+const clients: Client[] = [];
+
+export function getUserMcpConfigPath(): string {
+  return path.join(os.homedir(), ".mistral-code", "mcp.json");
+}
+
+export function getProjectMcpConfigPath(cwd: string = process.cwd()): string {
+  return path.join(cwd, ".mistral-code", "mcp.json");
+}
+
+function readMcpConfigFile(filePath: string): McpConfig {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as McpConfig;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Loads the MCP servers from the user's and the project's mcp.json. A
+ * project server replaces a user server of the same name.
+ */
+export function loadMcpConfig(cwd: string = process.cwd()): McpServerEntry[] {
+  const entries = new Map<string, McpServerEntry>();
+  for (const [scope, filePath] of [
+    ["user", getUserMcpConfigPath()],
+    ["project", getProjectMcpConfigPath(cwd)],
+  ] as const) {
+    for (const [name, config] of Object.entries(
+      readMcpConfigFile(filePath).mcpServers ?? {}
+    )) {
+      entries.set(name, { name, scope, config });
+    }
+  }
+  return [...entries.values()];
+}
+
+function getFingerprint(config: McpServerConfig): string {
+  return createHash("sha256")
+    .update(JSON.stringify(config))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * The user's remembered answer for a project server, or undefined when they
+ * have not been asked about this configuration of it yet.
+ */
+export function getProjectServerApproval(
+  entry: McpServerEntry,
+  cwd: string = process.cwd()
+): boolean | undefined {
+  const answer =
+    loadUserSettings().mcp?.projectServers?.[path.resolve(cwd)]?.[entry.name];
+  return answer?.fingerprint === getFingerprint(entry.config)
+    ? answer.approved
+    : undefined;
+}
+
+function saveProjectServerApproval(
+  entry: McpServerEntry,
+  approved: boolean,
+  cwd: string = process.cwd()
+): void {
+  updateUserSettings((settings) => {
+    const mcp = (settings.mcp = settings.mcp ?? {});
+    const projects = (mcp.projectServers = mcp.projectServers ?? {});
+    const project = (projects[path.resolve(cwd)] =
+      projects[path.resolve(cwd)] ?? {});
+    project[entry.name] = {
+      approved,
+      fingerprint: getFingerprint(entry.config),
+    };
+  });
+}
+
+export function isMcpToolName(name: string): name is `mcp__${string}` {
+  return name.startsWith(MCP_TOOL_PREFIX);
+}
+
+// Tool names sent to Mistral may only contain letters, digits, _ and -,
+// and permission rules only accept word characters
+function sanitizeName(name: string): string {
+  return name.replace(/\W/g, "_");
+}
+
+export function getMcpToolName(serverName: string, toolName: string): string {
+  return `${MCP_TOOL_PREFIX}${sanitizeName(serverName)}__${sanitizeName(
+    toolName
+  )}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+// Lets secrets stay out of the config file: "Bearer ${API_TOKEN}"
+function expandEnv(value: string): string {
+  return value.replace(
+    /\$\{(\w+)\}/g,
+    (_, name: string) => process.env[name] ?? ""
+  );
+}
+
+function expandRecord(
+  record: Record<string, string> | undefined
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record ?? {}).map(([key, value]) => [key, expandEnv(value)])
+  );
+}
+
+function getTransportType(config: McpServerConfig): McpTransportType {
+  return config.type ?? "stdio";
+}
+
+function createTransport(config: McpServerConfig): {
+  transport: Transport;
+  stderr: () => string;
+} {
+  if ("url" in config) {
+    const url = new URL(expandEnv(config.url));
+    const requestInit = { headers: expandRecord(config.headers) };
+    return {
+      transport:
+        config.type === "sse"
+          ? new SSEClientTransport(url, { requestInit })
+          : new StreamableHTTPClientTransport(url, { requestInit }),
+      stderr: () => "",
+    };
+  }
+
+  const transport = new StdioClientTransport({
+    command: config.command,
+    args: (config.args ?? []).map(expandEnv),
+    env: { ...getDefaultEnvironment(), ...expandRecord(config.env) },
+    cwd: config.cwd,
+    stderr: "pipe",
+  });
+  // Keep the tail of the server's stderr to explain failed connections
+  // without letting it scribble over the REPL
+  let stderr = "";
+  transport.stderr?.on("data", (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+  return { transport, stderr: () => stderr.trim() };
+}
+
+function getToolTimeout(config: McpServerConfig): number {
+  const timeout = config.toolTimeoutMs;
+  return typeof timeout === "number" && Number.isFinite(timeout) && timeout > 0
+    ? timeout
+    : DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message)), CONNECT_TIMEOUT_MS);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+type CallToolContent = Array<{
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri: string; text?: string };
+}>;
+
+function formatToolResult(
+  result: Record<string, unknown>,
+  source: string,
+  context: ToolContext
+): string {
+  const parts: string[] = [];
+  for (const item of (result.content ?? []) as CallToolContent) {
+    if (item.type === "text" && item.text !== undefined) {
+      parts.push(item.text);
+    } else if (item.type === "image" && item.data && item.mimeType) {
+      context.onImage?.({
+        source,
+        mimeType: item.mimeType,
+        dataUrl: `data:${item.mimeType};base64,${item.data}`,
+      });
+      parts.push(`[Image: ${item.mimeType}]`);
+    } else if (item.type === "resource" && item.resource) {
+      parts.push(item.resource.text ?? `[Resource: ${item.resource.uri}]`);
+    } else if (item.type === "resource_link" && item.uri) {
+      parts.push(`[Resource link: ${item.uri}]`);
+    }
+  }
+  if (parts.length === 0 && result.structuredContent !== undefined) {
+    parts.push(JSON.stringify(result.structuredContent, null, 2));
+  }
+  const output = parts.join("\n").trim() || "(no output)";
+  return result.isError ? `Error: ${output}` : output;
+}
+
+async function connectServer(
+  name: string,
+  config: McpServerConfig
+): Promise<McpServer> {
+  const server: McpServer = {
+    name,
+    transport: getTransportType(config),
+    status: "failed",
+    tools: [],
+  };
+  let stderr = () => "";
+  const client = new Client({ name: "mistral-code", version: "0.0.0" });
+  try {
+    const created = createTransport(config);
+    stderr = created.stderr;
+    await withTimeout(
+      client.connect(created.transport),
+      `Timed out connecting after ${CONNECT_TIMEOUT_MS / 1000}s`
+    );
+
+    const tools = [];
+    let cursor: string | undefined;
+    do {
+      const page = await withTimeout(
+        client.listTools(cursor ? { cursor } : {}),
+        `Timed out listing tools after ${CONNECT_TIMEOUT_MS / 1000}s`
+      );
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const toolTimeout = getToolTimeout(config);
+    for (const tool of tools) {
+      const toolName = getMcpToolName(name, tool.name);
+      const description = tool.description ?? tool.title ?? tool.name;
+      registerTool(
+        defineTool<Record<string, unknown>>({
+          name: toolName,
+          description: `[MCP server ${name}] ${description}`,
+          parameters: tool.inputSchema as JsonSchema,
+          readOnly: config.readOnlyTools?.includes(tool.name) === true,
+          execute: async (args, context) => {
+            try {
+              // The SDK cancels the request on the server when it times out
+              const result = await client.callTool(
+                { name: tool.name, arguments: args },
+                undefined,
+                { timeout: toolTimeout }
+              );
+              return formatToolResult(result, toolName, context);
+            } catch (error) {
+              if (
+                error instanceof McpError &&
+                error.code === ErrorCode.RequestTimeout
+              ) {
+                return `Error: ${
+                  tool.name
+                } on MCP server ${name} timed out after ${
+                  toolTimeout / 1000
+                }s and was cancelled`;
+              }
+              return `Error calling ${tool.name} on MCP server ${name}: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`;
+            }
+          },
+        })
+      );
+      server.tools.push({ name: toolName, description });
+    }
+    server.status = "connected";
+    clients.push(client);
+  } catch (error) {
+    await client.close().catch(() => {});
+    const output = stderr();
+    server.error = `${
+      error instanceof Error ? error.message : "Unknown error"
+    }${output ? `\n${output}` : ""}`;
+  }
+  return server;
+}
+
+/**
+ * Connects to every configured MCP server and registers its tools as
+ * `mcp__<server>__<tool>`. Servers from the project's mcp.json are only
+ * started once the user has approved them through `confirm`; without it
+ * (as in non-interactive mode) unapproved ones are skipped. A server that
+ * fails to start is reported in the returned list instead of aborting the
+ * others.
+ */
+export async function connectMcpServers(
+  options: { confirm?: ConfirmMcpServer } = {}
+): Promise<McpServer[]> {
+  const approved: McpServerEntry[] = [];
+  const skipped: McpServer[] = [];
+  // Asked one at a time, before anything is started
+  for (const entry of loadMcpConfig()) {
+    let approval =
+      entry.scope === "user" ? true : getProjectServerApproval(entry);
+    if (approval === undefined && options.confirm) {
+      approval = await options.confirm(entry);
+      saveProjectServerApproval(entry, approval);
+    }
+    if (approval) {
+      approved.push(entry);
+    } else {
+      skipped.push({
+        name: entry.name,
+        transport: getTransportType(entry.config),
+        status: "not_approved",
+        error:
+          approval === false
+            ? `Declined; remove it from "mcp.projectServers" in ~/.mistral-code/settings.json to be asked again`
+            : "Not approved yet; start mistral-code interactively in this project to approve it",
+        tools: [],
+      });
+    }
+  }
+  servers = [
+    ...(await Promise.all(
+      approved.map((entry) => connectServer(entry.name, entry.config))
+    )),
+    ...skipped,
+  ];
+  return servers;
+}
+
+export function getMcpServers(): McpServer[] {
+  return servers;
+}
+
+export async function closeMcpServers(): Promise<void> {
+  await Promise.allSettled(clients.map((client) => client.close()));
+  clients.length = 0;
+}
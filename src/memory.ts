@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { walkFiles } from "./search.js";
+import { findGitRoot } from "./workspace.js";
+
+export const MEMORY_FILE_NAME = "MISTRAL.md";
+
+// Keeps one oversized file from crowding out the rest of the prompt
+const MAX_MEMORY_FILE_CHARS = 40_000;
+
+export type MemoryFile = {
+  filePath: string;
+  scope: "user" | "project" | "directory";
+  content: string;
+};
+
+// Files below the current directory are found once per session; their
+// content is still re-read every turn
+let nestedMemoryPaths: string[] | null = null;
+
+export function getUserMemoryPath(): string {
+  return path.join(os.homedir(), ".mistral-code", MEMORY_FILE_NAME);
+}
+
+export function getProjectRoot(cwd: string = process.cwd()): string {
+  return findGitRoot(cwd) ?? path.resolve(cwd);
+}
+
+export function getProjectMemoryPath(cwd: string = process.cwd()): string {
+  return path.join(getProjectRoot(cwd), MEMORY_FILE_NAME);
+}
+
+function readMemoryFile(filePath: string): string | null {
+  try {
+    const content = fs.readFileSync(filePath, "utf-8").trim();
+    if (!content) {
+      return null;
+    }
+    return content.length > MAX_MEMORY_FILE_CHARS
+      ? `${content.slice(0, MAX_MEMORY_FILE_CHARS)}\n\n[... truncated]`
+      : content;
+  } catch {
+    return null;
+  }
+}
+
+// The project root and every directory from there down to cwd
+function getAncestorDirectories(cwd: string): string[] {
+  const root = getProjectRoot(cwd);
+  const directories: string[] = [];
+  let current = path.resolve(cwd);
+  while (current.startsWith(root)) {
+    directories.unshift(current);
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  return directories;
+}
+
+/**
+ * Finds the MISTRAL.md files that apply to the session, most general first:
+ * the user's file, the project root's, those in the directories down to the
+ * current one and those in subdirectories (skipping .gitignored ones).
+ */
+export async function loadMemoryFiles(
+  cwd: string = process.cwd()
+): Promise<MemoryFile[]> {
+  if (!nestedMemoryPaths) {
+    // Outside a repository cwd may be something as large as the home
+    // directory, so only the files on the way down to it are used
+    nestedMemoryPaths = findGitRoot(cwd)
+      ? (await walkFiles(path.resolve(cwd))).filter(
+          (filePath) =>
+            path.basename(filePath) === MEMORY_FILE_NAME &&
+            path.dirname(filePath) !== path.resolve(cwd)
+        )
+      : [];
+  }
+
+  const root = getProjectRoot(cwd);
+  const candidates: Array<Omit<MemoryFile, "content">> = [
+    { filePath: getUserMemoryPath(), scope: "user" },
+    ...getAncestorDirectories(cwd).map(
+      (directory): Omit<MemoryFile, "content"> => ({
+        filePath: path.join(directory, MEMORY_FILE_NAME),
+        scope: directory === root ? "project" : "directory",
+      })
+    ),
+    ...nestedMemoryPaths.map(
+      (filePath): Omit<MemoryFile, "content"> => ({
+        filePath,
+        scope: "directory",
+      })
+    ),
+  ];
+
+  const files: MemoryFile[] = [];
+  for (const candidate of candidates) {
+    const content = readMemoryFile(candidate.filePath);
+    if (content !== null) {
+      files.push({ ...candidate, content });
+    }
+  }
+  return files;
+}
+
+export function displayMemoryPath(file: MemoryFile): string {
+  if (file.scope === "user") {
+    return `~/.mistral-code/${MEMORY_FILE_NAME}`;
+  }
+  return path.relative(process.cwd(), file.filePath) || MEMORY_FILE_NAME;
+}
+
+/**
+ * Renders the memory files as a system prompt section, or an empty string
+ * when there are none.
+ */
+export function formatMemory(files: MemoryFile[]): string {
+  if (files.length === 0) {
+    return "";
+  }
+  const sections = files.map((file) => {
+    const description =
+      file.scope === "user"
+        ? "the user's instructions for all projects"
+        : file.scope === "project"
+        ? "instructions for this project"
+        : `instructions for files under ${
+            path.relative(getProjectRoot(), path.dirname(file.filePath)) || "."
+          }/`;
+    return `## ${displayMemoryPath(file)} (${description})\n\n${file.content}`;
+  });
+  return `\n\n# Memory\n\nThese instructions come from ${MEMORY_FILE_NAME} files written by the user and the team. Follow them; where they conflict, more specific files take precedence over general ones, and all of them over the defaults above.\n\n${sections.join(
+    "\n\n"
+  )}`;
+}
+
+/**
+ * Appends a note as a list item to the project's MISTRAL.md, creating the
+ * file if needed, and returns its path.
+ */
+export function appendMemoryNote(
+  note: string,
+  cwd: string = process.cwd()
+): string {
+  const filePath = getProjectMemoryPath(cwd);
+  let existing = "";
+  try {
+    existing = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    existing = `# ${MEMORY_FILE_NAME}\n`;
+  }
+  const separator = existing.endsWith("\n") ? "" : "\n";
+  fs.writeFileSync(filePath, `${existing}${separator}- ${note}\n`, "utf-8");
+  return filePath;
+}
@@ -0,0 +1,102 @@
+import { Mistral } from "@mistralai/mistralai";
+import { loadSettings, type ModelSettings } from "./settings.js";
+
+export const DEFAULT_MODEL = "mistral-small-latest";
+
+// Offered by /model alongside the models configured in settings.json
+export const KNOWN_MODELS = [
+  "mistral-small-latest",
+  "mistral-medium-latest",
+  "mistral-large-latest",
+  "codestral-latest",
+  "devstral-medium-latest",
+];
+
+export type ModelConfig = ModelSettings & { model: string };
+
+type ModelSelection = {
+  model: string;
+  // Falls back to model when plan mode has no model of its own
+  planModel?: string;
+};
+
+let selection: ModelSelection | null = null;
+const clients = new Map<string, Mistral>();
+
+/**
+ * Picks the models for this session: `--model`/`--plan-model` first, then
+ * `model`/`planModel` from settings.json, then mistral-small-latest.
+ */
+export function configureModels(
+  options: { model?: string; planModel?: string } = {}
+): void {
+  const settings = loadSettings();
+  selection = {
+    model: options.model ?? settings.model ?? DEFAULT_MODEL,
+    planModel: options.planModel ?? settings.planModel,
+  };
+}
+
+function getSelection(): ModelSelection {
+  if (!selection) {
+    configureModels();
+  }
+  return selection as ModelSelection;
+}
+
+export function getModel(planMode: boolean): string {
+  const { model, planModel } = getSelection();
+  return planMode ? planModel ?? model : model;
+}
+
+/**
+ * Switches the model for the rest of the session. Without a separate plan
+ * model, plan mode follows the implementation model.
+ */
+export function setModel(
+  model: string,
+  options: { planMode?: boolean } = {}
+): void {
+  const current = getSelection();
+  selection = options.planMode
+    ? { ...current, planModel: model }
+    : { ...current, model };
+}
+
+export function listConfiguredModels(): string[] {
+  return Object.keys(loadSettings().models ?? {});
+}
+
+/**
+ * The active model for the mode (or the given one) together with its
+ * parameters from the `models` section of settings.json.
+ */
+export function getModelConfig(
+  planMode: boolean,
+  model: string = getModel(planMode)
+): ModelConfig {
+  return { ...loadSettings().models?.[model], model };
+}
+
+/**
+ * Returns the client to send requests for a model to: the default client,
+ * or one for the model's own serverURL and API key.
+ */
+export function getModelClient(client: Mistral, config: ModelConfig): Mistral {
+  if (!config.serverURL && !config.apiKeyEnv) {
+    return client;
+  }
+  const key = `${config.serverURL ?? ""}\n${config.apiKeyEnv ?? ""}`;
+  let modelClient = clients.get(key);
+  if (!modelClient) {
+    modelClient = new Mistral({
+      apiKey:
+        (config.apiKeyEnv && process.env[config.apiKeyEnv]) ||
+        process.env.MISTRAL_API_KEY ||
+        "",
+      serverURL: config.serverURL,
+    });
+    clients.set(key, modelClient);
+  }
+  return modelClient;
+}
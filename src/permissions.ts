@@ -0,0 +1,252 @@
+import * as path from "path";
+import { matchesGlob } from "./glob.js";
+import { isMcpToolName } from "./mcp.js";
+import {
+  loadSettings,
+  updateProjectSettings,
+  type PermissionRules,
+} from "./settings.js";
+import type { EditFileArgs, MultiEditArgs, RunCommandArgs } from "./tools.js";
+
+export type PermissionRequest =
+  | { toolName: "edit_file"; args: EditFileArgs }
+  | { toolName: "multi_edit"; args: MultiEditArgs }
+  | { toolName: "run_command"; args: RunCommandArgs }
+  | { toolName: `mcp__${string}`; args: Record<string, unknown> };
+
+export type PermissionDecision =
+  | { behavior: "allow" }
+  | { behavior: "deny"; reason?: string };
+
+export type PermissionAnswer =
+  | { choice: "once" }
+  | { choice: "always" }
+  | { choice: "deny"; reason?: string };
+
+export type CanUseTool = (
+  request: PermissionRequest
+) => Promise<PermissionDecision>;
+
+export type PermissionCheckerOptions = {
+  sessionRules?: PermissionRules;
+  // Asks the user; without it anything not covered by a rule is denied
+  prompt?: (
+    request: PermissionRequest,
+    suggestedRule: string
+  ) => Promise<PermissionAnswer>;
+};
+
+export function requiresPermission(
+  toolName: string
+): toolName is PermissionRequest["toolName"] {
+  return (
+    toolName === "edit_file" ||
+    toolName === "multi_edit" ||
+    toolName === "run_command" ||
+    isMcpToolName(toolName)
+  );
+}
+
+export function isMcpRequest(
+  request: PermissionRequest
+): request is Extract<PermissionRequest, { toolName: `mcp__${string}` }> {
+  return isMcpToolName(request.toolName);
+}
+
+// multi_edit is governed by the same edit_file(...) rules
+function getRuleToolName(request: PermissionRequest): string {
+  return request.toolName === "multi_edit" ? "edit_file" : request.toolName;
+}
+
+function getSpecifier(request: PermissionRequest): string {
+  if (isMcpRequest(request)) {
+    return "";
+  }
+  if (request.toolName !== "run_command") {
+    const resolvedPath = path.resolve(process.cwd(), request.args.file_path);
+    return path.relative(process.cwd(), resolvedPath).split(path.sep).join("/");
+  }
+  return request.args.command.trim();
+}
+
+function parseRule(
+  rule: string
+): { toolName: string; pattern?: string } | null {
+  const match = rule.trim().match(/^(\w+)(?:\((.*)\))?$/);
+  if (!match) {
+    return null;
+  }
+  return { toolName: match[1], pattern: match[2] };
+}
+
+// Chaining, backgrounding, redirection and substitution; a command using
+// any of them is more than the plain command a prefix rule vouches for
+const SHELL_OPERATORS = /&&|\|\||;|\||&|>>|>|<|<\(|>\(|\n|\$\(|`/;
+
+function matchesCommand(
+  command: string,
+  pattern: string,
+  allowPrefix: boolean
+): boolean {
+  if (pattern.endsWith(":*")) {
+    if (!allowPrefix) {
+      return false;
+    }
+    const prefix = pattern.slice(0, -2).trim();
+    return command === prefix || command.startsWith(prefix + " ");
+  }
+  return command === pattern.trim();
+}
+
+// Compound commands are checked part by part so that an allowed prefix like
+// `npm test:*` cannot smuggle in `npm test && rm -rf .` (or `npm test & rm`)
+function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||&|\n/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function matchesRule(
+  rule: string,
+  request: PermissionRequest,
+  allowPrefix = true
+): boolean {
+  const parsed = parseRule(rule);
+  if (!parsed) {
+    return false;
+  }
+  if (isMcpRequest(request)) {
+    // MCP tools take no pattern; mcp__<server> covers all of a server's tools
+    return (
+      (parsed.toolName === request.toolName ||
+        request.toolName.startsWith(parsed.toolName + "__")) &&
+      (parsed.pattern === undefined || parsed.pattern === "*")
+    );
+  }
+  if (parsed.toolName !== getRuleToolName(request)) {
+    return false;
+  }
+  if (parsed.pattern === undefined || parsed.pattern === "*") {
+    return true;
+  }
+  const specifier = getSpecifier(request);
+  if (request.toolName !== "run_command") {
+    return matchesGlob(specifier, parsed.pattern);
+  }
+  return matchesCommand(specifier, parsed.pattern, allowPrefix);
+}
+
+function isAllowed(rules: string[], request: PermissionRequest): boolean {
+  if (request.toolName !== "run_command") {
+    return rules.some((rule) => matchesRule(rule, request));
+  }
+
+  // A prefix rule never vouches for whatever is chained or substituted
+  // after it; such commands need an exact rule or every part allowed
+  const isPlainCommand = (command: string) => !SHELL_OPERATORS.test(command);
+  const command = request.args.command;
+  if (
+    rules.some((rule) => matchesRule(rule, request, isPlainCommand(command)))
+  ) {
+    return true;
+  }
+  const parts = splitCommand(command);
+  return (
+    parts.length > 1 &&
+    parts.every((part) =>
+      rules.some((rule) =>
+        matchesRule(
+          rule,
+          { ...request, args: { ...request.args, command: part } },
+          isPlainCommand(part)
+        )
+      )
+    )
+  );
+}
+
+function findDenyRule(
+  rules: string[],
+  request: PermissionRequest
+): string | undefined {
+  const requests: PermissionRequest[] =
+    request.toolName === "run_command"
+      ? [
+          request,
+          ...splitCommand(request.args.command).map(
+            (part): PermissionRequest => ({
+              ...request,
+              args: { ...request.args, command: part },
+            })
+          ),
+        ]
+      : [request];
+  return rules.find((rule) => requests.some((r) => matchesRule(rule, r)));
+}
+
+export function suggestRule(request: PermissionRequest): string {
+  if (isMcpRequest(request)) {
+    return request.toolName;
+  }
+  return `${getRuleToolName(request)}(${getSpecifier(request)})`;
+}
+
+export function addPermissionRule(
+  rule: string,
+  behavior: "allow" | "deny"
+): void {
+  updateProjectSettings((settings) => {
+    const permissions = (settings.permissions = settings.permissions ?? {});
+    const rules = (permissions[behavior] = permissions[behavior] ?? []);
+    if (!rules.includes(rule)) {
+      rules.push(rule);
+    }
+  });
+}
+
+/**
+ * Builds the permission check run before every mutating tool call. Deny
+ * rules win over allow rules; anything matched by neither is put to the user
+ * through `prompt`, and "always allow" answers are saved to the project
+ * settings file.
+ */
+export function createPermissionChecker(
+  options: PermissionCheckerOptions = {}
+): CanUseTool {
+  return async (request) => {
+    const settings = loadSettings();
+    const allow = [
+      ...(options.sessionRules?.allow ?? []),
+      ...(settings.permissions?.allow ?? []),
+    ];
+    const deny = [
+      ...(options.sessionRules?.deny ?? []),
+      ...(settings.permissions?.deny ?? []),
+    ];
+
+    const denyRule = findDenyRule(deny, request);
+    if (denyRule) {
+      return { behavior: "deny", reason: `Denied by rule ${denyRule}` };
+    }
+    if (isAllowed(allow, request)) {
+      return { behavior: "allow" };
+    }
+    if (!options.prompt) {
+      return {
+        behavior: "deny",
+        reason: `Permission required for ${request.toolName}. Allow it with --allowed-tools or a rule in .mistral-code/settings.json`,
+      };
+    }
+
+    const suggestedRule = suggestRule(request);
+    const answer = await options.prompt(request, suggestedRule);
+    if (answer.choice === "deny") {
+      return { behavior: "deny", reason: answer.reason };
+    }
+    if (answer.choice === "always") {
+      addPermissionRule(suggestedRule, "allow");
+    }
+    return { behavior: "allow" };
+  };
+}
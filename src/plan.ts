@@ -0,0 +1,201 @@
+import chalk from "chalk";
+import * as fs from "fs";
+import { appendSessionEntry, type Session } from "./session.js";
+
+export type PlanStepStatus =
+  | "pending"
+  | "in_progress"
+  | "completed"
+  | "skipped";
+
+export type PlanStep = {
+  description: string;
+  status: PlanStepStatus;
+  // Only approved steps may be implemented
+  approved: boolean;
+  note?: string;
+};
+
+export type Plan = {
+  title: string;
+  steps: PlanStep[];
+};
+
+const CHECKBOXES: Record<PlanStepStatus, string> = {
+  pending: "[ ]",
+  in_progress: "[~]",
+  completed: "[x]",
+  skipped: "[-]",
+};
+
+let currentPlan: Plan | null = null;
+
+export function getPlan(): Plan | null {
+  return currentPlan;
+}
+
+export function setPlan(plan: Plan | null): void {
+  currentPlan = plan;
+}
+
+/**
+ * Builds a plan from step descriptions. Steps that are unchanged from the
+ * previous plan keep their approval and progress, so revising one step does
+ * not reset the others.
+ */
+export function createPlan(
+  title: string,
+  descriptions: string[],
+  previous: Plan | null = null
+): Plan {
+  return {
+    title,
+    steps: descriptions.map((description) => {
+      const existing = previous?.steps.find(
+        (step) => step.description === description
+      );
+      return existing
+        ? { ...existing }
+        : { description, status: "pending", approved: false };
+    }),
+  };
+}
+
+// The plan is kept next to the session transcript
+export function getPlanFilePath(session: Session): string {
+  return session.filePath.replace(/\.jsonl$/, ".plan.md");
+}
+
+/**
+ * Records the plan in the session transcript, so it is restored on resume,
+ * and writes it as a Markdown checklist next to the transcript.
+ */
+export function savePlan(session: Session, plan: Plan | null): void {
+  appendSessionEntry(session, { type: "plan", plan });
+  try {
+    if (plan) {
+      fs.writeFileSync(getPlanFilePath(session), formatPlan(plan), "utf-8");
+    } else {
+      fs.rmSync(getPlanFilePath(session), { force: true });
+    }
+  } catch {
+    // The transcript entry is enough to restore the plan
+  }
+}
+
+/**
+ * Parses step numbers such as "2", "1-3" or "1,4-5" into a sorted list of
+ * 1-based step numbers, throwing if any are outside the plan.
+ */
+export function parseStepNumbers(spec: string, stepCount: number): number[] {
+  const numbers = new Set<number>();
+  for (const part of spec.split(/[\s,]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new Error(`"${part}" is not a step number or range like 1-3`);
+    }
+    const start = Number(match[1]);
+    const end = Number(match[2] ?? match[1]);
+    if (start < 1 || end > stepCount || start > end) {
+      throw new Error(
+        `Step ${part} is out of range; the plan has ${stepCount} steps`
+      );
+    }
+    for (let step = start; step <= end; step++) {
+      numbers.add(step);
+    }
+  }
+  return [...numbers].sort((a, b) => a - b);
+}
+
+// Compresses step numbers back into ranges: [1, 2, 3, 5] becomes "1-3, 5"
+export function formatStepNumbers(numbers: number[]): string {
+  const ranges: string[] = [];
+  let start = numbers[0];
+  numbers.forEach((number, index) => {
+    const next = numbers[index + 1];
+    if (next !== number + 1) {
+      ranges.push(start === number ? `${number}` : `${start}-${number}`);
+      start = next;
+    }
+  });
+  return ranges.join(", ");
+}
+
+export function getUnapprovedSteps(plan: Plan): number[] {
+  return plan.steps.flatMap((step, index) =>
+    step.approved ? [] : [index + 1]
+  );
+}
+
+/**
+ * Renders the plan as a Markdown checklist; this is both the plan file and
+ * what the model is shown.
+ */
+export function formatPlan(plan: Plan): string {
+  const lines = plan.steps.map((step, index) => {
+    const annotations = [
+      step.approved ? "" : "not approved",
+      step.status === "in_progress" ? "in progress" : "",
+      step.status === "skipped" ? "skipped" : "",
+      step.note ?? "",
+    ].filter(Boolean);
+    return `- ${CHECKBOXES[step.status]} ${index + 1}. ${step.description}${
+      annotations.length > 0 ? ` (${annotations.join("; ")})` : ""
+    }`;
+  });
+  return `# ${plan.title}\n\n${lines.join("\n")}\n`;
+}
+
+/**
+ * The plan as a system prompt section. Outside plan mode it tells the model
+ * to work through the approved steps and report its progress.
+ */
+export function formatPlanPrompt(plan: Plan, planMode: boolean): string {
+  const instructions = planMode
+    ? "This is the current plan. To revise it, call write_plan with the complete updated list of steps."
+    : "The user approved the steps of this plan that are not marked otherwise. Work through the approved steps in order and do not start steps that are not approved. Call update_plan_step to mark a step in_progress when you start it and completed (or skipped, with a note saying why) when you finish it.";
+  return `\n\n# Plan\n\n${instructions}\n\n${formatPlan(plan)}`;
+}
+
+function renderStep(step: PlanStep, index: number): string {
+  const label = `${index + 1}. ${step.description}`;
+  const note = step.note ? chalk.gray(` — ${step.note}`) : "";
+  const approval = step.approved ? "" : chalk.gray(" (awaiting approval)");
+  switch (step.status) {
+    case "completed":
+      return `${chalk.green("✓")} ${chalk.gray(label)}${note}`;
+    case "in_progress":
+      return `${chalk.yellow("◐")} ${chalk.yellow(label)}${note}`;
+    case "skipped":
+      return `${chalk.gray("⊘")} ${chalk.gray.strikethrough(label)}${note}`;
+    default:
+      return `${chalk.gray("○")} ${
+        step.approved ? chalk.white(label) : chalk.gray(label)
+      }${approval}${note}`;
+  }
+}
+
+/**
+ * Renders the plan as a checklist for the terminal.
+ */
+export function renderPlan(plan: Plan): string {
+  const completed = plan.steps.filter(
+    (step) => step.status === "completed"
+  ).length;
+  return [
+    chalk.bold(`📋 ${plan.title}`) +
+      chalk.gray(` (${completed}/${plan.steps.length} done)`),
+    ...plan.steps.map((step, index) => `   ${renderStep(step, index)}`),
+  ].join("\n");
+}
+
+/**
+ * Renders a single step's progress, e.g. when the agent starts working on it.
+ */
+export function renderPlanStep(plan: Plan, stepNumber: number): string {
+  return `${renderStep(
+    plan.steps[stepNumber - 1],
+    stepNumber - 1
+  )} ${chalk.gray(`(step ${stepNumber} of ${plan.steps.length})`)}`;
+}
@@ -0,0 +1,488 @@
+import { spawn, type ChildProcess } from "child_process";
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+
+export type BackgroundProcess = {
+  id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  startedAt: Date;
+  status: "running" | "exited" | "killed";
+  exitCode: number | null;
+  // Output produced since the last read_output call
+  unread: string;
+  droppedBytes: number;
+  child: ChildProcess;
+};
+
+// Unread output beyond this is dropped from the front so a chatty watcher
+// cannot grow without bound between reads
+const MAX_UNREAD_CHARS = 1024 * 1024;
+const KILL_GRACE_MS = 2000;
+
+// Output sent back to the model beyond this keeps only its head and tail
+const MAX_COMMAND_OUTPUT_CHARS = 30_000;
+
+export type CommandResult = {
+  output: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  interrupted: boolean;
+};
+
+export type RunCommandOptions = {
+  cwd: string;
+  timeoutMs: number;
+  onOutput?: (chunk: string) => void;
+};
+
+const processes = new Map<string, BackgroundProcess>();
+let nextId = 1;
+
+// Interrupt handlers of the commands currently running in the foreground
+const foregroundCommands = new Set<() => void>();
+
+function appendOutput(
+  backgroundProcess: BackgroundProcess,
+  chunk: Buffer
+): void {
+  backgroundProcess.unread += chunk.toString();
+  const excess = backgroundProcess.unread.length - MAX_UNREAD_CHARS;
+  if (excess > 0) {
+    backgroundProcess.unread = backgroundProcess.unread.slice(excess);
+    backgroundProcess.droppedBytes += excess;
+  }
+}
+
+// Keeps the first and last half of the limit and counts what was dropped
+// in between, so huge outputs never have to be held in memory
+function createOutputCollector(limit: number) {
+  let head = "";
+  let tail = "";
+  let total = 0;
+  return {
+    append(text: string) {
+      total += text.length;
+      const room = Math.max(0, limit / 2 - head.length);
+      head += text.slice(0, room);
+      tail = (tail + text.slice(room)).slice(-limit / 2);
+    },
+    toString(): string {
+      const dropped = total - head.length - tail.length;
+      return dropped > 0
+        ? `${head}\n\n... [${dropped} characters truncated] ...\n\n${tail}`
+        : head + tail;
+    },
+  };
+}
+
+// Commands run in their own process group so that killing one also stops
+// whatever the shell started (npm run dev -> node -> ...)
+function signalChild(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (child.pid !== undefined && process.platform !== "win32") {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Runs a shell command to completion, streaming its output through
+ * `onOutput`. The command is stopped when it exceeds `timeoutMs` or when
+ * interruptForegroundCommands is called.
+ */
+export function runShellCommand(
+  command: string,
+  options: RunCommandOptions
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: process.platform !== "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const collector = createOutputCollector(MAX_COMMAND_OUTPUT_CHARS);
+    let timedOut = false;
+    let interrupted = false;
+    let closed = false;
+
+    const stop = () => {
+      signalChild(child, "SIGTERM");
+      setTimeout(() => {
+        if (!closed) {
+          signalChild(child, "SIGKILL");
+        }
+      }, KILL_GRACE_MS).unref();
+    };
+    const interrupt = () => {
+      interrupted = true;
+      stop();
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutMs);
+    foregroundCommands.add(interrupt);
+
+    const onData = (chunk: Buffer) => {
+      const text = chunk.toString();
+      collector.append(text);
+      options.onOutput?.(text);
+    };
+    child.stdout?.on("data", onData);
+    child.stderr?.on("data", onData);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      foregroundCommands.delete(interrupt);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      closed = true;
+      clearTimeout(timer);
+      foregroundCommands.delete(interrupt);
+      resolve({
+        output: collector.toString(),
+        exitCode: code,
+        timedOut,
+        interrupted,
+      });
+    });
+  });
+}
+
+/**
+ * Stops the commands running in the foreground, if any. Returns whether
+ * there was anything to interrupt.
+ */
+export function interruptForegroundCommands(): boolean {
+  const interrupts = [...foregroundCommands];
+  interrupts.forEach((interrupt) => interrupt());
+  return interrupts.length > 0;
+}
+
+// cwd runs a single command in another directory without moving the shell
+export type ShellSessionOptions = Omit<RunCommandOptions, "cwd"> & {
+  cwd?: string;
+};
+
+type ShellSession = {
+  child: ChildProcess;
+  cwd: string;
+  // Receives the shell's output while a command is running
+  onData: ((text: string) => void) | null;
+  exited: boolean;
+};
+
+let shellSession: ShellSession | null = null;
+let shellQueue: Promise<unknown> = Promise.resolve();
+// Where the next session starts, so that a restart after a timeout keeps
+// at least the working directory
+let shellCwd: string | null = null;
+
+function quoteShellArgument(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function startShellSession(): ShellSession {
+  const shell = fs.existsSync("/bin/bash") ? "/bin/bash" : "/bin/sh";
+  const cwd = shellCwd && fs.existsSync(shellCwd) ? shellCwd : process.cwd();
+  const child = spawn(shell, [], {
+    cwd,
+    detached: true,
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  const session: ShellSession = { child, cwd, onData: null, exited: false };
+  const forward = (chunk: Buffer) => session.onData?.(chunk.toString());
+  child.stdout?.on("data", forward);
+  child.stderr?.on("data", forward);
+  // Writing to a shell that has just exited must not crash the CLI
+  child.stdin?.on("error", () => {});
+  child.on("close", () => {
+    session.exited = true;
+    session.onData?.("");
+    if (shellSession === session) {
+      shellSession = null;
+    }
+  });
+  return session;
+}
+
+function getShellSession(): ShellSession {
+  if (!shellSession || shellSession.exited) {
+    shellSession = startShellSession();
+  }
+  return shellSession;
+}
+
+/**
+ * Whether run_command should use the persistent shell session. It is not
+ * available on Windows.
+ */
+export function isShellSessionSupported(): boolean {
+  return process.platform !== "win32";
+}
+
+/**
+ * Runs a command in the conversation's shell session, where the working
+ * directory and environment carry over between calls. Each command is
+ * followed by a sentinel line carrying its exit status and the shell's
+ * working directory. A timeout or interrupt restarts the session in the
+ * last known directory, as the command cannot be stopped without stopping
+ * the shell.
+ */
+export function runInShellSession(
+  command: string,
+  options: ShellSessionOptions
+): Promise<CommandResult> {
+  const run = shellQueue.then(() => executeInShellSession(command, options));
+  shellQueue = run.catch(() => {});
+  return run;
+}
+
+function executeInShellSession(
+  command: string,
+  options: ShellSessionOptions
+): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const session = getShellSession();
+    const token = `__MISTRAL_CODE_EXIT_${randomBytes(8).toString("hex")}_`;
+    const marker = `\n${token}`;
+    const collector = createOutputCollector(MAX_COMMAND_OUTPUT_CHARS);
+    let pending = "";
+    let timedOut = false;
+    let interrupted = false;
+    let finished = false;
+
+    const finish = (exitCode: number | null) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      session.onData = null;
+      clearTimeout(timer);
+      foregroundCommands.delete(interrupt);
+      resolve({
+        output: collector.toString(),
+        exitCode,
+        timedOut,
+        interrupted,
+      });
+    };
+    const emit = (text: string) => {
+      if (text) {
+        collector.append(text);
+        options.onOutput?.(text);
+      }
+    };
+
+    session.onData = (text) => {
+      if (session.exited) {
+        // The command ended the shell itself (exit, exec, ...)
+        emit(pending);
+        emit("\n[The shell session exited; the next command starts a new one]");
+        finish(session.child.exitCode);
+        return;
+      }
+      pending += text;
+      const index = pending.indexOf(marker);
+      if (index === -1) {
+        // Hold back what could be the start of the sentinel
+        const safe = Math.max(0, pending.length - marker.length);
+        emit(pending.slice(0, safe));
+        pending = pending.slice(safe);
+        return;
+      }
+      const status = pending.slice(index + marker.length);
+      const newline = status.indexOf("\n");
+      if (newline === -1) {
+        emit(pending.slice(0, index));
+        pending = pending.slice(index);
+        return;
+      }
+      emit(pending.slice(0, index));
+      const [code, ...cwd] = status.slice(0, newline).split(" ");
+      session.cwd = cwd.join(" ") || session.cwd;
+      shellCwd = session.cwd;
+      finish(Number(code));
+    };
+
+    const restart = () => {
+      signalChild(session.child, "SIGKILL");
+      session.exited = true;
+      if (shellSession === session) {
+        shellSession = null;
+      }
+      emit(
+        `\n[The shell session was restarted in ${session.cwd}; environment changes were lost]`
+      );
+      finish(null);
+    };
+    const interrupt = () => {
+      interrupted = true;
+      restart();
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      restart();
+    }, options.timeoutMs);
+    foregroundCommands.add(interrupt);
+
+    // eval keeps cd and export in the shell itself, and a syntax error in
+    // the command fails the eval instead of leaving the shell waiting for
+    // more input. stdin is the session's script, so commands must not read it.
+    const evaluated = `eval ${quoteShellArgument(command)} < /dev/null 2>&1`;
+    const script = options.cwd
+      ? `__mc_dir="$PWD"; cd ${quoteShellArgument(
+          options.cwd
+        )} && ${evaluated}; __mc_status=$?; cd "$__mc_dir"`
+      : `${evaluated}; __mc_status=$?`;
+    session.child.stdin?.write(
+      `${script}\nprintf '\\n%s%s %s\\n' '${token}' "$__mc_status" "$PWD"\n`
+    );
+  });
+}
+
+/**
+ * Stops the shell session so that the next command starts with a fresh
+ * shell in the directory the CLI was started from.
+ */
+export function resetShellSession(): void {
+  if (shellSession) {
+    signalChild(shellSession.child, "SIGKILL");
+    shellSession = null;
+  }
+  shellCwd = null;
+}
+
+/**
+ * The working directory of the shell session, if one has been started.
+ */
+export function getShellSessionCwd(): string | null {
+  return shellCwd;
+}
+
+/**
+ * Starts a shell command without waiting for it and returns its handle.
+ * Output is collected until it is read with readProcessOutput.
+ */
+export function startBackgroundProcess(
+  command: string,
+  cwd: string
+): BackgroundProcess {
+  const child = spawn(command, {
+    cwd,
+    shell: true,
+    detached: process.platform !== "win32",
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const backgroundProcess: BackgroundProcess = {
+    id: `bg_${nextId++}`,
+    command,
+    cwd,
+    pid: child.pid,
+    startedAt: new Date(),
+    status: "running",
+    exitCode: null,
+    unread: "",
+    droppedBytes: 0,
+    child,
+  };
+  child.stdout?.on("data", (chunk: Buffer) =>
+    appendOutput(backgroundProcess, chunk)
+  );
+  child.stderr?.on("data", (chunk: Buffer) =>
+    appendOutput(backgroundProcess, chunk)
+  );
+  child.on("error", (error) => {
+    backgroundProcess.unread += `\n${error.message}\n`;
+    backgroundProcess.status = "exited";
+  });
+  child.on("exit", (code) => {
+    if (backgroundProcess.status === "running") {
+      backgroundProcess.status = "exited";
+    }
+    backgroundProcess.exitCode = code;
+  });
+  processes.set(backgroundProcess.id, backgroundProcess);
+  return backgroundProcess;
+}
+
+export function getBackgroundProcess(
+  id: string
+): BackgroundProcess | undefined {
+  return processes.get(id);
+}
+
+export function listBackgroundProcesses(): BackgroundProcess[] {
+  return [...processes.values()];
+}
+
+export function describeStatus(backgroundProcess: BackgroundProcess): string {
+  if (backgroundProcess.status === "running") {
+    return "running";
+  }
+  if (backgroundProcess.status === "killed") {
+    return "killed";
+  }
+  return `exited with code ${backgroundProcess.exitCode ?? "unknown"}`;
+}
+
+/**
+ * Returns the output produced since the previous call and marks it as read.
+ */
+export function readProcessOutput(
+  backgroundProcess: BackgroundProcess
+): string {
+  const output = backgroundProcess.unread;
+  const dropped = backgroundProcess.droppedBytes;
+  backgroundProcess.unread = "";
+  backgroundProcess.droppedBytes = 0;
+  return dropped > 0
+    ? `[${dropped} earlier characters were dropped]\n${output}`
+    : output;
+}
+
+/**
+ * Sends SIGTERM to the process group and SIGKILL if it is still running
+ * after a grace period.
+ */
+export async function killBackgroundProcess(
+  backgroundProcess: BackgroundProcess
+): Promise<void> {
+  if (backgroundProcess.status !== "running") {
+    return;
+  }
+  backgroundProcess.status = "killed";
+  const exited = new Promise<void>((resolve) =>
+    backgroundProcess.child.once("exit", () => resolve())
+  );
+  signalChild(backgroundProcess.child, "SIGTERM");
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(true), KILL_GRACE_MS);
+  });
+  if (await Promise.race([exited.then(() => false), timedOut])) {
+    signalChild(backgroundProcess.child, "SIGKILL");
+  }
+  clearTimeout(timer);
+}
+
+/**
+ * Kills every background process that is still running. Called when the CLI
+ * exits so that dev servers and watchers do not outlive it.
+ */
+export function killAllBackgroundProcesses(): void {
+  for (const backgroundProcess of processes.values()) {
+    if (backgroundProcess.status === "running") {
+      backgroundProcess.status = "killed";
+      signalChild(backgroundProcess.child, "SIGTERM");
+    }
+  }
+}
@@ -0,0 +1,89 @@
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+};
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against the subset of JSON Schema used by the tool
+ * definitions (type, properties, required, items and enum) and returns one
+ * message per problem. Unknown properties are allowed.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "arguments"
+): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [
+      `${path} must be ${schema.type === "array" ? "an" : "a"} ${
+        schema.type
+      }, got ${describe(value)}`,
+    ];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      `${path} must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`,
+    ];
+  }
+
+  const errors: string[] = [];
+  if (schema.type === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {}
+    )) {
+      if (object[key] === undefined) {
+        continue;
+      }
+      errors.push(
+        ...validateSchema(propertySchema, object[key], `${path}.${key}`)
+      );
+    }
+  }
+  if (schema.type === "array" && schema.items) {
+    const items = schema.items;
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateSchema(items, item, `${path}[${index}]`));
+    });
+  }
+  return errors;
+}
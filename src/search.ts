@@ -0,0 +1,337 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { globToRegExp, matchesGlob } from "./glob.js";
+import type { GlobArgs, GrepArgs } from "./tools.js";
+import {
+  getWorkspaceRoots,
+  isDeniedFile,
+  isWithin,
+  resolveWorkspacePath,
+} from "./workspace.js";
+
+export const FILE_TYPES: Record<string, string[]> = {
+  c: ["c", "h"],
+  cpp: ["cpp", "cc", "cxx", "hpp", "hh", "hxx"],
+  css: ["css", "scss", "sass", "less"],
+  go: ["go"],
+  html: ["html", "htm"],
+  java: ["java"],
+  js: ["js", "jsx", "mjs", "cjs"],
+  json: ["json"],
+  kotlin: ["kt", "kts"],
+  md: ["md", "mdx", "markdown"],
+  php: ["php"],
+  py: ["py", "pyi"],
+  rb: ["rb"],
+  rust: ["rs"],
+  sh: ["sh", "bash", "zsh"],
+  sql: ["sql"],
+  swift: ["swift"],
+  ts: ["ts", "tsx", "mts", "cts"],
+  yaml: ["yaml", "yml"],
+};
+
+const DEFAULT_MAX_RESULTS = 200;
+const MAX_SEARCH_FILE_SIZE = 2 * 1024 * 1024;
+
+type IgnoreRule = {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+};
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    let line = rawLine.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const negate = line.startsWith("!");
+    if (negate) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\/, "");
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    // Patterns containing a slash are relative to the .gitignore's directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    rules.push({
+      base,
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negate,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+async function readGitignore(directory: string): Promise<IgnoreRule[]> {
+  try {
+    const content = await fs.readFile(
+      path.join(directory, ".gitignore"),
+      "utf-8"
+    );
+    return parseGitignore(content, directory);
+  } catch {
+    return [];
+  }
+}
+
+function isIgnored(
+  rules: IgnoreRule[],
+  absolutePath: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (!isWithin(absolutePath, rule.base)) {
+      continue;
+    }
+    if (rule.regex.test(toPosix(path.relative(rule.base, absolutePath)))) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+// .gitignore files between the workspace root and the search directory also
+// apply to the search
+async function collectAncestorRules(directory: string): Promise<IgnoreRule[]> {
+  const root = getWorkspaceRoots().find(
+    (candidate) =>
+      directory === candidate || directory.startsWith(candidate + path.sep)
+  );
+  if (!root) {
+    return [];
+  }
+  const directories: string[] = [];
+  let current = path.dirname(directory);
+  while (current.length >= root.length && current !== directory) {
+    directories.unshift(current);
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  const rules: IgnoreRule[] = [];
+  for (const ancestor of directories) {
+    rules.push(...(await readGitignore(ancestor)));
+  }
+  return rules;
+}
+
+/**
+ * Lists the files under a directory, skipping `.git`, anything matched by
+ * .gitignore files along the way, denied files and symlinks (which could
+ * point outside the workspace).
+ */
+export async function walkFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (current: string, inherited: IgnoreRule[]) => {
+    const rules = [...inherited, ...(await readGitignore(current))];
+    let entries;
+    try {
+      entries = await fs.readdir(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const absolutePath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name === ".git" || isIgnored(rules, absolutePath, true)) {
+          continue;
+        }
+        await walk(absolutePath, rules);
+      } else if (entry.isFile()) {
+        if (
+          isIgnored(rules, absolutePath, false) ||
+          isDeniedFile(absolutePath)
+        ) {
+          continue;
+        }
+        files.push(absolutePath);
+      }
+    }
+  };
+
+  await walk(directory, await collectAncestorRules(directory));
+  return files;
+}
+
+async function resolveSearchTarget(
+  searchPath: string | undefined
+): Promise<{ directory: string; files: string[] }> {
+  const resolvedPath = resolveWorkspacePath(searchPath || ".");
+  const stats = await fs.stat(resolvedPath);
+  if (stats.isFile()) {
+    return { directory: path.dirname(resolvedPath), files: [resolvedPath] };
+  }
+  return { directory: resolvedPath, files: await walkFiles(resolvedPath) };
+}
+
+function displayPath(absolutePath: string): string {
+  return toPosix(path.relative(process.cwd(), absolutePath)) || ".";
+}
+
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+export async function grepFiles(args: GrepArgs): Promise<string> {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(args.pattern, args.case_insensitive ? "i" : "");
+  } catch (error) {
+    return `Error: ${
+      error instanceof Error ? error.message : "Invalid regular expression"
+    }`;
+  }
+
+  let extensions: string[] | undefined;
+  if (args.type) {
+    extensions = FILE_TYPES[args.type];
+    if (!extensions) {
+      return `Error: Unknown file type "${
+        args.type
+      }". Supported types: ${Object.keys(FILE_TYPES).join(", ")}`;
+    }
+  }
+
+  const outputMode = args.output_mode ?? "files_with_matches";
+  const contextLines = Math.max(0, args.context ?? 0);
+  const maxResults = args.max_results ?? DEFAULT_MAX_RESULTS;
+  const { directory, files } = await resolveSearchTarget(args.path);
+
+  const output: string[] = [];
+  let truncated = false;
+
+  for (const filePath of files) {
+    if (output.length >= maxResults) {
+      truncated = true;
+      break;
+    }
+    const relativePath = toPosix(path.relative(directory, filePath));
+    if (args.glob && !matchesGlob(relativePath, args.glob)) {
+      continue;
+    }
+    if (
+      extensions &&
+      !extensions.includes(path.extname(filePath).slice(1).toLowerCase())
+    ) {
+      continue;
+    }
+
+    let buffer: Buffer;
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size > MAX_SEARCH_FILE_SIZE) {
+        continue;
+      }
+      buffer = await fs.readFile(filePath);
+    } catch {
+      continue;
+    }
+    if (isBinary(buffer)) {
+      continue;
+    }
+
+    const lines = buffer.toString("utf-8").split("\n");
+    const matchingLines: number[] = [];
+    lines.forEach((line, index) => {
+      if (regex.test(line)) {
+        matchingLines.push(index);
+      }
+    });
+    if (matchingLines.length === 0) {
+      continue;
+    }
+
+    const name = displayPath(filePath);
+    if (outputMode === "files_with_matches") {
+      output.push(name);
+    } else if (outputMode === "count") {
+      output.push(`${name}:${matchingLines.length}`);
+    } else {
+      // Matches print as file:line:text, context lines as file-line-text
+      let lastPrinted = -1;
+      if (contextLines > 0 && output.length > 0) {
+        output.push("--");
+      }
+      for (const match of matchingLines) {
+        const start = Math.max(0, match - contextLines, lastPrinted + 1);
+        const end = Math.min(lines.length - 1, match + contextLines);
+        if (lastPrinted >= 0 && start > lastPrinted + 1 && contextLines > 0) {
+          output.push("--");
+        }
+        for (let index = start; index <= end; index++) {
+          const separator = matchingLines.includes(index) ? ":" : "-";
+          output.push(
+            `${name}${separator}${index + 1}${separator}${lines[index]}`
+          );
+        }
+        lastPrinted = Math.max(lastPrinted, end);
+        if (output.length >= maxResults) {
+          break;
+        }
+      }
+    }
+  }
+
+  if (output.length === 0) {
+    return "No matches found";
+  }
+  if (truncated || output.length > maxResults) {
+    return (
+      output.slice(0, maxResults).join("\n") +
+      `\n\n(Results truncated to ${maxResults}. Narrow the search with path, glob or type.)`
+    );
+  }
+  return output.join("\n");
+}
+
+export async function globFiles(args: GlobArgs): Promise<string> {
+  const { directory, files } = await resolveSearchTarget(args.path);
+  const matches: Array<{ name: string; mtime: number }> = [];
+  for (const filePath of files) {
+    if (
+      !matchesGlob(toPosix(path.relative(directory, filePath)), args.pattern)
+    ) {
+      continue;
+    }
+    try {
+      const stats = await fs.stat(filePath);
+      matches.push({ name: displayPath(filePath), mtime: stats.mtimeMs });
+    } catch {
+      // The file disappeared while searching
+    }
+  }
+
+  if (matches.length === 0) {
+    return "No files found";
+  }
+  // Most recently modified first, as those are usually the relevant ones
+  matches.sort((a, b) => b.mtime - a.mtime);
+  const names = matches.map((match) => match.name);
+  if (names.length > DEFAULT_MAX_RESULTS) {
+    return (
+      names.slice(0, DEFAULT_MAX_RESULTS).join("\n") +
+      `\n\n(Showing ${DEFAULT_MAX_RESULTS} of ${names.length} files. Use a more specific pattern.)`
+    );
+  }
+  return names.join("\n");
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ConversationMessage } from "./agent.js";
+import type { Plan } from "./plan.js";
+import type { TodoItem } from "./todos.js";
+
+export type Session = {
+  id: string;
+  filePath: string;
+};
+
+export type SessionEntry =
+  | { type: "message"; message: ConversationMessage }
+  | { type: "truncate"; length: number }
+  // The whole history after it was compacted into a summary
+  | { type: "compaction"; conversationHistory: ConversationMessage[] }
+  | { type: "plan_mode"; planMode: boolean }
+  | { type: "plan"; plan: Plan | null }
+  | { type: "todos"; todos: TodoItem[] };
+
+export type SessionSummary = {
+  id: string;
+  updatedAt: Date;
+  messageCount: number;
+  preview: string;
+};
+
+export type LoadedSession = {
+  session: Session;
+  conversationHistory: ConversationMessage[];
+  planMode: boolean;
+  plan: Plan | null;
+  todos: TodoItem[];
+};
+
+export type SessionState = {
+  getSession: () => Session;
+  setSession: (session: Session) => void;
+};
+
+export function getSessionsDirectory(cwd: string = process.cwd()): string {
+  const projectKey = path.resolve(cwd).replace(/[^a-zA-Z0-9]/g, "-");
+  return path.join(os.homedir(), ".mistral-code", "projects", projectKey);
+}
+
+export function createSession(cwd: string = process.cwd()): Session {
+  const id = randomUUID();
+  return {
+    id,
+    filePath: path.join(getSessionsDirectory(cwd), `${id}.jsonl`),
+  };
+}
+
+export function appendSessionEntry(
+  session: Session,
+  entry: SessionEntry
+): void {
+  try {
+    // Written synchronously so the transcript survives a crash mid-turn
+    fs.mkdirSync(path.dirname(session.filePath), { recursive: true });
+    fs.appendFileSync(
+      session.filePath,
+      JSON.stringify({ ...entry, timestamp: new Date().toISOString() }) + "\n",
+      "utf-8"
+    );
+  } catch {
+    // Losing the transcript should never interrupt the conversation
+  }
+}
+
+function readEntries(filePath: string): SessionEntry[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const entries: SessionEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      // Skip a partially written trailing line
+    }
+  }
+  return entries;
+}
+
+function replayEntries(entries: SessionEntry[]): {
+  conversationHistory: ConversationMessage[];
+  planMode: boolean;
+  plan: Plan | null;
+  todos: TodoItem[];
+} {
+  const conversationHistory: ConversationMessage[] = [];
+  let planMode = false;
+  let plan: Plan | null = null;
+  let todos: TodoItem[] = [];
+  for (const entry of entries) {
+    if (entry.type === "message") {
+      conversationHistory.push(entry.message);
+    } else if (entry.type === "truncate") {
+      conversationHistory.length = Math.min(
+        conversationHistory.length,
+        entry.length
+      );
+    } else if (entry.type === "compaction") {
+      conversationHistory.splice(
+        0,
+        conversationHistory.length,
+        ...entry.conversationHistory
+      );
+    } else if (entry.type === "plan_mode") {
+      planMode = entry.planMode;
+    } else if (entry.type === "plan") {
+      plan = entry.plan;
+    } else if (entry.type === "todos") {
+      todos = entry.todos;
+    }
+  }
+  return { conversationHistory, planMode, plan, todos };
+}
+
+export function listSessions(cwd: string = process.cwd()): SessionSummary[] {
+  const directory = getSessionsDirectory(cwd);
+  let files: string[];
+  try {
+    files = fs.readdirSync(directory).filter((file) => file.endsWith(".jsonl"));
+  } catch {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    try {
+      const { conversationHistory } = replayEntries(readEntries(filePath));
+      if (conversationHistory.length === 0) {
+        continue;
+      }
+      const firstUserMessage = conversationHistory.find(
+        (msg) => msg.role === "user"
+      );
+      summaries.push({
+        id: path.basename(file, ".jsonl"),
+        updatedAt: fs.statSync(filePath).mtime,
+        messageCount: conversationHistory.length,
+        preview: firstUserMessage
+          ? firstUserMessage.content.replace(/\s+/g, " ").slice(0, 60)
+          : "",
+      });
+    } catch {
+      // Ignore unreadable session files
+    }
+  }
+
+  return summaries.sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+}
+
+export function loadSession(
+  idOrPrefix: string,
+  cwd: string = process.cwd()
+): LoadedSession {
+  const summaries = listSessions(cwd);
+  const exact = summaries.find((summary) => summary.id === idOrPrefix);
+  const matches = exact
+    ? [exact]
+    : summaries.filter((summary) => summary.id.startsWith(idOrPrefix));
+  if (matches.length === 0) {
+    throw new Error(`No session found matching "${idOrPrefix}"`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Session id "${idOrPrefix}" is ambiguous (${matches.length} matches)`
+    );
+  }
+
+  const id = matches[0].id;
+  const session: Session = {
+    id,
+    filePath: path.join(getSessionsDirectory(cwd), `${id}.jsonl`),
+  };
+  return { session, ...replayEntries(readEntries(session.filePath)) };
+}
+
+export function loadLatestSession(
+  cwd: string = process.cwd()
+): LoadedSession | null {
+  const [latest] = listSessions(cwd);
+  return latest ? loadSession(latest.id, cwd) : null;
+}
@@ -0,0 +1,144 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export type PermissionRules = {
+  allow?: string[];
+  deny?: string[];
+};
+
+export type WorkspaceSettings = {
+  additionalDirectories?: string[];
+  deniedFiles?: string[];
+};
+
+export type ToolSettings = {
+  // Most text read_file returns from a single call
+  readFileMaxBytes?: number;
+  // Default run_command timeout and the most a single call may ask for
+  commandTimeoutMs?: number;
+  maxCommandTimeoutMs?: number;
+  // Run commands in one shell per conversation so cd and export carry over
+  persistentShell?: boolean;
+};
+
+export type ModelSettings = {
+  temperature?: number;
+  maxTokens?: number;
+  // Base URL of a self-hosted or otherwise compatible chat completions API
+  serverURL?: string;
+  // Environment variable holding the API key for serverURL
+  apiKeyEnv?: string;
+  // Tokens the model accepts, for deciding when to compact the conversation
+  contextWindow?: number;
+  // USD per million tokens, for cost estimates
+  inputPrice?: number;
+  outputPrice?: number;
+};
+
+// The user's answers about something a project brings along, by project
+// directory and name; the fingerprint makes a changed entry ask again
+export type ProjectApprovals = Record<
+  string,
+  Record<string, { approved: boolean; fingerprint: string }>
+>;
+
+export type McpSettings = {
+  // Answers to "connect to this project's MCP server?"
+  projectServers?: ProjectApprovals;
+};
+
+export type CommandSettings = {
+  // Answers to "apply this project command's allowed-tools?"
+  projectAllowedTools?: ProjectApprovals;
+};
+
+export type Settings = {
+  // Model for implementation and, unless planModel is set, plan mode
+  model?: string;
+  planModel?: string;
+  models?: Record<string, ModelSettings>;
+  // Stop calling the model once the session's estimated cost reaches this
+  maxSessionCostUsd?: number;
+  // Summarise older turns automatically when the context window fills up
+  autoCompact?: boolean;
+  permissions?: PermissionRules;
+  workspace?: WorkspaceSettings;
+  tools?: ToolSettings;
+  // Only read from the user settings, so a project cannot approve itself
+  mcp?: McpSettings;
+  commands?: CommandSettings;
+};
+
+export function getUserSettingsPath(): string {
+  return path.join(os.homedir(), ".mistral-code", "settings.json");
+}
+
+export function getProjectSettingsPath(cwd: string = process.cwd()): string {
+  return path.join(cwd, ".mistral-code", "settings.json");
+}
+
+function readSettingsFile(filePath: string): Settings {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as Settings;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Loads user-level settings overlaid with the project's settings. Rule and
+ * file lists are concatenated so a project can add entries but not drop the
+ * user's. Extra workspace directories only come from the user settings, so
+ * a cloned repository cannot widen the workspace.
+ */
+export function loadSettings(cwd: string = process.cwd()): Settings {
+  const user = readSettingsFile(getUserSettingsPath());
+  const project = readSettingsFile(getProjectSettingsPath(cwd));
+  return {
+    ...user,
+    ...project,
+    permissions: {
+      allow: [
+        ...(user.permissions?.allow ?? []),
+        ...(project.permissions?.allow ?? []),
+      ],
+      deny: [
+        ...(user.permissions?.deny ?? []),
+        ...(project.permissions?.deny ?? []),
+      ],
+    },
+    workspace: {
+      additionalDirectories: user.workspace?.additionalDirectories ?? [],
+      deniedFiles: [
+        ...(user.workspace?.deniedFiles ?? []),
+        ...(project.workspace?.deniedFiles ?? []),
+      ],
+    },
+  };
+}
+
+export function loadUserSettings(): Settings {
+  return readSettingsFile(getUserSettingsPath());
+}
+
+export function updateUserSettings(update: (settings: Settings) => void): void {
+  updateSettingsFile(getUserSettingsPath(), update);
+}
+
+export function updateProjectSettings(
+  update: (settings: Settings) => void,
+  cwd: string = process.cwd()
+): void {
+  updateSettingsFile(getProjectSettingsPath(cwd), update);
+}
+
+function updateSettingsFile(
+  filePath: string,
+  update: (settings: Settings) => void
+): void {
+  const settings = readSettingsFile(filePath);
+  update(settings);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(settings, null, 2) + "\n", "utf-8");
+}
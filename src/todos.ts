@@ -0,0 +1,79 @@
+import chalk from "chalk";
+
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+export type TodoItem = {
+  content: string;
+  status: TodoStatus;
+};
+
+// The agent's working list for the session, replaced as a whole by every
+// todo_write call
+let currentTodos: TodoItem[] = [];
+
+export function getTodos(): TodoItem[] {
+  return currentTodos;
+}
+
+export function setTodos(todos: TodoItem[]): void {
+  currentTodos = todos;
+}
+
+export function hasUnfinishedTodos(todos: TodoItem[]): boolean {
+  return todos.some((todo) => todo.status !== "completed");
+}
+
+/**
+ * Renders the list as plain text for the model, one `[status] content` line
+ * per item.
+ */
+export function formatTodos(todos: TodoItem[]): string {
+  return todos
+    .map((todo, index) => `${index + 1}. [${todo.status}] ${todo.content}`)
+    .join("\n");
+}
+
+/**
+ * The unfinished list as a system prompt section, or an empty string when
+ * there is nothing left to do.
+ */
+export function formatTodosPrompt(todos: TodoItem[]): string {
+  if (!hasUnfinishedTodos(todos)) {
+    return "";
+  }
+  return `\n\n# Todo list\n\nThis is your todo list from earlier in the session. Keep it up to date with todo_write as you work, or replace it if the user has moved on to something else.\n\n${formatTodos(
+    todos
+  )}`;
+}
+
+/**
+ * Reminder attached to a tool result when the agent has gone several steps
+ * without updating an unfinished list.
+ */
+export function formatTodoReminder(todos: TodoItem[]): string {
+  return `\n\n[Reminder: your todo list has not been updated for a while. Check it against what you have done, mark finished items completed and the one you are working on in_progress with todo_write, then continue with the next item. The current list:\n${formatTodos(
+    todos
+  )}]`;
+}
+
+function renderTodo(todo: TodoItem): string {
+  switch (todo.status) {
+    case "completed":
+      return `${chalk.green("✓")} ${chalk.gray.strikethrough(todo.content)}`;
+    case "in_progress":
+      return `${chalk.yellow("◐")} ${chalk.yellow.bold(todo.content)}`;
+    default:
+      return `${chalk.gray("○")} ${chalk.white(todo.content)}`;
+  }
+}
+
+/**
+ * Renders the list as a checklist for the terminal.
+ */
+export function renderTodos(todos: TodoItem[]): string {
+  const completed = todos.filter((todo) => todo.status === "completed").length;
+  return [
+    chalk.bold("📝 Todos") + chalk.gray(` (${completed}/${todos.length} done)`),
+    ...todos.map((todo) => `   ${renderTodo(todo)}`),
+  ].join("\n");
+}
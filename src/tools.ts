@@ -1,13 +1,28 @@
 import type { Tool } from "@mistralai/mistralai/models/components";
-import { exec } from "child_process";
-import { promisify } from "util";
 import * as fs from "fs/promises";
 import * as path from "path";
-
-const execAsync = promisify(exec);
+import { createPlan, formatPlan, getPlan, setPlan, type Plan } from "./plan.js";
+import {
+  describeStatus,
+  getBackgroundProcess,
+  getShellSessionCwd,
+  isShellSessionSupported,
+  killBackgroundProcess,
+  readProcessOutput,
+  runInShellSession,
+  runShellCommand,
+  startBackgroundProcess,
+} from "./processes.js";
+import { validateSchema, type JsonSchema } from "./schema.js";
+import { FILE_TYPES, globFiles, grepFiles, isBinary } from "./search.js";
+import { loadSettings } from "./settings.js";
+import { formatTodos, setTodos, type TodoItem } from "./todos.js";
+import { resolveWorkspacePath } from "./workspace.js";
 
 export type ReadFileArgs = {
   file_path: string;
+  offset?: number;
+  limit?: number;
 };
 
 export type ListDirectoryArgs = {
@@ -18,278 +33,1069 @@ export type EditFileArgs = {
   file_path: string;
   old_str: string;
   new_str: string;
+  replace_all?: boolean;
+  overwrite?: boolean;
+};
+
+export type MultiEditArgs = {
+  file_path: string;
+  edits: Array<{
+    old_str: string;
+    new_str: string;
+    replace_all?: boolean;
+  }>;
 };
 
 export type RunCommandArgs = {
   command: string;
   working_directory?: string;
+  run_in_background?: boolean;
+  timeout?: number;
 };
 
-export type ToolRegistry = {
-  read_file: ReadFileArgs;
-  list_directory: ListDirectoryArgs;
-  edit_file: EditFileArgs;
-  run_command: RunCommandArgs;
+export type ReadOutputArgs = {
+  process_id: string;
 };
 
-export type ToolName = keyof ToolRegistry;
-
-export const readFileTool: Tool = {
-  type: "function",
-  function: {
-    name: "read_file",
-    description:
-      "Read the contents of a file from the filesystem. Returns the file content as a string.",
-    parameters: {
-      type: "object",
-      properties: {
-        file_path: {
-          type: "string",
-          description:
-            "The path to the file to read. Can be relative or absolute.",
-        },
+export type KillProcessArgs = {
+  process_id: string;
+};
+
+export type GrepArgs = {
+  pattern: string;
+  path?: string;
+  glob?: string;
+  type?: string;
+  case_insensitive?: boolean;
+  context?: number;
+  output_mode?: "content" | "files_with_matches" | "count";
+  max_results?: number;
+};
+
+export type GlobArgs = {
+  pattern: string;
+  path?: string;
+};
+
+export type WritePlanArgs = {
+  title?: string;
+  steps: string[];
+};
+
+export type UpdatePlanStepArgs = {
+  step: number;
+  status: "in_progress" | "completed" | "skipped";
+  note?: string;
+};
+
+export type TodoWriteArgs = {
+  todos: TodoItem[];
+};
+
+export type FileChange = {
+  filePath: string;
+  resolvedPath: string;
+  // null when the file does not exist yet
+  oldContent: string | null;
+  newContent: string;
+};
+
+export type ImageAttachment = {
+  // The file or tool the image came from
+  source: string;
+  mimeType: string;
+  dataUrl: string;
+};
+
+export type ToolContext = {
+  onFileChange?: (change: FileChange) => void;
+  // Images returned by a tool, to be attached to the tool result
+  onImage?: (image: ImageAttachment) => void;
+  // Output of a running command, as it arrives
+  onOutput?: (chunk: string) => void;
+  // The plan was created or changed; `step` is set for progress on one step
+  onPlanChange?: (plan: Plan, step?: number) => void;
+  onTodosChange?: (todos: TodoItem[]) => void;
+};
+
+export type ToolDefinition<Args> = {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  // Read-only tools never change files or run commands; only they are
+  // offered in plan mode
+  readOnly: boolean;
+  // Extra checks beyond the schema; returns an error message or nothing
+  validate?: (args: Args) => string | undefined;
+  // Errors are returned as text for the model rather than thrown
+  execute: (args: Args, context: ToolContext) => Promise<string>;
+};
+
+export type ParsedArguments<Args = unknown> =
+  | { ok: true; args: Args }
+  | { ok: false; error: string };
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 300_000;
+const DEFAULT_MAX_COMMAND_TIMEOUT_MS = 600_000;
+const DEFAULT_READ_LIMIT = 2000;
+const DEFAULT_READ_MAX_BYTES = 100 * 1024;
+const MAX_LINE_LENGTH = 2000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".gif": "image/gif",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+async function readExistingFile(resolvedPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads a file for the model: text comes back line-numbered and capped by
+ * line count and size, images are handed to `context.onImage`, and binary
+ * files are refused rather than returned as garbage.
+ */
+async function readFileForModel(
+  args: ReadFileArgs,
+  context: ToolContext
+): Promise<string> {
+  const resolvedPath = resolveWorkspacePath(args.file_path);
+  const stats = await fs.stat(resolvedPath);
+  if (stats.isDirectory()) {
+    throw new Error(
+      `${args.file_path} is a directory. Use list_directory to see its contents.`
+    );
+  }
+
+  const mimeType = IMAGE_MIME_TYPES[path.extname(resolvedPath).toLowerCase()];
+  if (mimeType) {
+    if (stats.size > MAX_IMAGE_BYTES) {
+      throw new Error(
+        `Image is too large (${stats.size} bytes, the limit is ${MAX_IMAGE_BYTES})`
+      );
+    }
+    const data = await fs.readFile(resolvedPath);
+    context.onImage?.({
+      source: args.file_path,
+      mimeType,
+      dataUrl: `data:${mimeType};base64,${data.toString("base64")}`,
+    });
+    return `Image file: ${args.file_path} (${mimeType}, ${stats.size} bytes)`;
+  }
+
+  const buffer = await fs.readFile(resolvedPath);
+  if (isBinary(buffer)) {
+    throw new Error(
+      `${args.file_path} is a binary file (${stats.size} bytes) and cannot be displayed as text`
+    );
+  }
+
+  const lines = buffer.toString("utf-8").split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    return `File is empty: ${args.file_path}`;
+  }
+
+  const offset = Math.max(1, Math.floor(args.offset ?? 1));
+  if (offset > lines.length) {
+    throw new Error(
+      `offset ${offset} is beyond the end of the file (${lines.length} lines)`
+    );
+  }
+  const limit = Math.max(1, Math.floor(args.limit ?? DEFAULT_READ_LIMIT));
+  const maxBytes =
+    loadSettings().tools?.readFileMaxBytes ?? DEFAULT_READ_MAX_BYTES;
+
+  let output = "";
+  let bytes = 0;
+  let end = offset - 1;
+  for (
+    let index = offset - 1;
+    index < Math.min(lines.length, offset - 1 + limit);
+    index++
+  ) {
+    let line = lines[index];
+    if (line.length > MAX_LINE_LENGTH) {
+      line = line.slice(0, MAX_LINE_LENGTH) + "... [line truncated]";
+    }
+    const formatted = `${String(index + 1).padStart(6)}\t${line}\n`;
+    bytes += Buffer.byteLength(formatted);
+    if (bytes > maxBytes && index > offset - 1) {
+      break;
+    }
+    output += formatted;
+    end = index + 1;
+  }
+
+  if (offset > 1 || end < lines.length) {
+    output += `\n(Showing lines ${offset}-${end} of ${lines.length}. Use offset and limit to read other parts of the file.)`;
+  }
+  return output.replace(/\n$/, "");
+}
+
+function findOccurrences(content: string, search: string): number[] {
+  const indices: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    indices.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return indices;
+}
+
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
+
+// Replacement is done by slicing rather than String.replace so that "$&"
+// and friends in new_str are written literally
+function applyReplacement(
+  content: string,
+  oldStr: string,
+  newStr: string,
+  replaceAll: boolean
+): string {
+  const occurrences = findOccurrences(content, oldStr);
+  if (occurrences.length === 0) {
+    throw new Error(
+      "The specified old_str was not found in the file. Make sure to include the exact string including whitespace and newlines."
+    );
+  }
+  if (occurrences.length > 1 && !replaceAll) {
+    const lines = occurrences.map((index) => lineNumberAt(content, index));
+    throw new Error(
+      `The specified old_str matches ${
+        occurrences.length
+      } times (at lines ${lines.join(
+        ", "
+      )}). Include more surrounding context to make it unique, or set replace_all to true to replace every occurrence.`
+    );
+  }
+  if (replaceAll) {
+    return content.split(oldStr).join(newStr);
+  }
+  const [index] = occurrences;
+  return (
+    content.slice(0, index) + newStr + content.slice(index + oldStr.length)
+  );
+}
+
+/**
+ * Works out what an edit_file call would write without touching the disk,
+ * so the change can be shown for approval before it is applied. Throws when
+ * the edit cannot be applied.
+ */
+export async function previewFileEdit(args: EditFileArgs): Promise<FileChange> {
+  const resolvedPath = resolveWorkspacePath(args.file_path);
+  const oldContent = await readExistingFile(resolvedPath);
+
+  if (args.old_str === "") {
+    if (oldContent !== null && !args.overwrite) {
+      throw new Error(
+        `File already exists: ${args.file_path}. Use a non-empty old_str to edit it, or set overwrite to true to replace its entire content.`
+      );
+    }
+    return {
+      filePath: args.file_path,
+      resolvedPath,
+      oldContent,
+      newContent: args.new_str,
+    };
+  }
+
+  if (oldContent === null) {
+    throw new Error(`File not found: ${args.file_path}`);
+  }
+  return {
+    filePath: args.file_path,
+    resolvedPath,
+    oldContent,
+    newContent: applyReplacement(
+      oldContent,
+      args.old_str,
+      args.new_str,
+      args.replace_all === true
+    ),
+  };
+}
+
+/**
+ * Applies every edit of a multi_edit call in memory, failing as a whole if
+ * any single edit cannot be applied.
+ */
+export async function previewMultiEdit(
+  args: MultiEditArgs
+): Promise<FileChange> {
+  const resolvedPath = resolveWorkspacePath(args.file_path);
+  const oldContent = await readExistingFile(resolvedPath);
+  if (!Array.isArray(args.edits) || args.edits.length === 0) {
+    throw new Error("edits must contain at least one edit");
+  }
+
+  let content = oldContent;
+  args.edits.forEach((edit, index) => {
+    try {
+      if (edit.old_str === "") {
+        if (index !== 0 || content !== null) {
+          throw new Error(
+            "An empty old_str is only allowed in the first edit, to create a file that does not exist yet."
+          );
+        }
+        content = edit.new_str;
+        return;
+      }
+      if (content === null) {
+        throw new Error(`File not found: ${args.file_path}`);
+      }
+      content = applyReplacement(
+        content,
+        edit.old_str,
+        edit.new_str,
+        edit.replace_all === true
+      );
+    } catch (error) {
+      throw new Error(
+        `Edit ${index + 1} of ${
+          args.edits.length
+        } failed, no changes were made: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  });
+
+  return {
+    filePath: args.file_path,
+    resolvedPath,
+    oldContent,
+    newContent: content ?? "",
+  };
+}
+
+export function defineTool<Args>(
+  definition: ToolDefinition<Args>
+): ToolDefinition<Args> {
+  return definition;
+}
+
+export const readFileTool = defineTool<ReadFileArgs>({
+  name: "read_file",
+  description:
+    "Read a file from the filesystem. Text is returned with line numbers (cat -n style) so lines can be cited as file:line; the numbers are not part of the file. Reads up to 2000 lines by default; use offset and limit to read other parts of large files. Images (png, jpg, gif, webp) are returned as images.",
+  parameters: {
+    type: "object",
+    properties: {
+      file_path: {
+        type: "string",
+        description:
+          "The path to the file to read. Can be relative or absolute.",
+      },
+      offset: {
+        type: "number",
+        description:
+          "The line number to start reading from (1-based). Defaults to 1.",
+      },
+      limit: {
+        type: "number",
+        description: "The maximum number of lines to read. Defaults to 2000.",
       },
-      required: ["file_path"],
     },
+    required: ["file_path"],
   },
-};
+  readOnly: true,
+  execute: async (args, context) => {
+    try {
+      return await readFileForModel(args, context);
+    } catch (error) {
+      return `Error reading file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
 
-export const listDirectoryTool: Tool = {
-  type: "function",
-  function: {
-    name: "list_directory",
-    description:
-      "List the contents of a directory. Returns a list of files and directories in the specified path.",
-    parameters: {
-      type: "object",
-      properties: {
-        directory_path: {
-          type: "string",
-          description:
-            "The path to the directory to list. Can be relative or absolute. Defaults to current directory if not provided.",
-        },
+export const listDirectoryTool = defineTool<ListDirectoryArgs>({
+  name: "list_directory",
+  description:
+    "List the contents of a directory. Returns a list of files and directories in the specified path.",
+  parameters: {
+    type: "object",
+    properties: {
+      directory_path: {
+        type: "string",
+        description:
+          "The path to the directory to list. Can be relative or absolute. Defaults to current directory if not provided.",
       },
-      required: [],
     },
+    required: [],
   },
-};
+  readOnly: true,
+  execute: async (listArgs) => {
+    try {
+      const resolvedPath = resolveWorkspacePath(listArgs.directory_path || ".");
 
-export const editFileTool: Tool = {
-  type: "function",
-  function: {
-    name: "edit_file",
-    description:
-      "Edit a file by replacing a specific string with a new string. If old_str is empty, creates a new file with new_str. Returns success message or error.",
-    parameters: {
-      type: "object",
-      properties: {
-        file_path: {
-          type: "string",
-          description:
-            "The path to the file to edit. Can be relative or absolute.",
-        },
-        old_str: {
-          type: "string",
-          description:
-            "The exact string to replace in the file. Use empty string to create a new file.",
-        },
-        new_str: {
-          type: "string",
-          description: "The new string to replace old_str with.",
-        },
+      const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
+      const items = await Promise.all(
+        entries.map(async (entry) => {
+          const name = entry.name;
+          const type = entry.isDirectory() ? "directory" : "file";
+          let size = "";
+          if (entry.isFile()) {
+            try {
+              const stats = await fs.stat(path.join(resolvedPath, name));
+              size = ` (${stats.size} bytes)`;
+            } catch {
+              // Ignore stat errors
+            }
+          }
+          return `${type === "directory" ? "📁" : "📄"} ${name}${size}`;
+        })
+      );
+      return items.join("\n");
+    } catch (error) {
+      return `Error listing directory: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
+
+export const editFileTool = defineTool<EditFileArgs>({
+  name: "edit_file",
+  description:
+    "Edit a file by replacing a specific string with a new string. old_str must match exactly once unless replace_all is true. If old_str is empty, creates a new file with new_str; an existing file is only replaced when overwrite is true. Returns success message or error.",
+  parameters: {
+    type: "object",
+    properties: {
+      file_path: {
+        type: "string",
+        description:
+          "The path to the file to edit. Can be relative or absolute.",
+      },
+      old_str: {
+        type: "string",
+        description:
+          "The exact string to replace in the file. Use empty string to create a new file.",
+      },
+      new_str: {
+        type: "string",
+        description: "The new string to replace old_str with.",
+      },
+      replace_all: {
+        type: "boolean",
+        description:
+          "Replace every occurrence of old_str instead of requiring a unique match. Defaults to false.",
+      },
+      overwrite: {
+        type: "boolean",
+        description:
+          "With an empty old_str, replace the whole content of an existing file. Defaults to false.",
       },
-      required: ["file_path", "old_str", "new_str"],
     },
+    required: ["file_path", "old_str", "new_str"],
   },
-};
+  readOnly: false,
+  execute: async (editArgs, context) => {
+    try {
+      const change = await previewFileEdit(editArgs);
+      await fs.writeFile(change.resolvedPath, change.newContent, "utf-8");
+      context.onFileChange?.(change);
+      return change.oldContent === null
+        ? `File created successfully: ${editArgs.file_path}`
+        : `File edited successfully: ${editArgs.file_path}`;
+    } catch (error) {
+      return `Error editing file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
 
-export const runCommandTool: Tool = {
-  type: "function",
-  function: {
-    name: "run_command",
-    description:
-      "Execute a shell command in the terminal. Returns the command output (stdout and stderr). Use this to run tests, install dependencies, build projects, or execute any CLI commands. Commands are executed in the specified working directory, or the current directory if not specified.",
-    parameters: {
-      type: "object",
-      properties: {
-        command: {
-          type: "string",
-          description:
-            "The shell command to execute. Can be any valid bash/shell command.",
-        },
-        working_directory: {
-          type: "string",
-          description:
-            "Optional working directory to execute the command in. Defaults to current directory if not provided.",
+export const multiEditTool = defineTool<MultiEditArgs>({
+  name: "multi_edit",
+  description:
+    "Apply several string replacements to one file in order. Each edit works on the result of the previous one and follows the same rules as edit_file. Either all edits are applied or none are. Returns success message or error.",
+  parameters: {
+    type: "object",
+    properties: {
+      file_path: {
+        type: "string",
+        description:
+          "The path to the file to edit. Can be relative or absolute.",
+      },
+      edits: {
+        type: "array",
+        description:
+          "The edits to apply, in order. An empty old_str in the first edit creates a new file.",
+        items: {
+          type: "object",
+          properties: {
+            old_str: {
+              type: "string",
+              description: "The exact string to replace.",
+            },
+            new_str: {
+              type: "string",
+              description: "The new string to replace old_str with.",
+            },
+            replace_all: {
+              type: "boolean",
+              description:
+                "Replace every occurrence of old_str. Defaults to false.",
+            },
+          },
+          required: ["old_str", "new_str"],
         },
       },
-      required: ["command"],
     },
+    required: ["file_path", "edits"],
   },
-};
+  readOnly: false,
+  validate: (args) =>
+    args.edits.length === 0
+      ? "edits must contain at least one edit"
+      : undefined,
+  execute: async (multiEditArgs, context) => {
+    try {
+      const change = await previewMultiEdit(multiEditArgs);
+      await fs.writeFile(change.resolvedPath, change.newContent, "utf-8");
+      context.onFileChange?.(change);
+      return `Applied ${multiEditArgs.edits.length} edits to ${multiEditArgs.file_path}`;
+    } catch (error) {
+      return `Error editing file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
 
-export function isToolName(name: string): name is ToolName {
-  return (
-    name === "read_file" ||
-    name === "list_directory" ||
-    name === "edit_file" ||
-    name === "run_command"
-  );
+// A zero, negative or non-numeric value in settings.json falls back to the
+// default rather than stopping every command at once
+function getPositiveSetting(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : fallback;
 }
 
-export async function executeTool(
-  toolName: "read_file",
-  args: ReadFileArgs
-): Promise<string>;
-export async function executeTool(
-  toolName: "list_directory",
-  args: ListDirectoryArgs
-): Promise<string>;
-export async function executeTool(
-  toolName: "edit_file",
-  args: EditFileArgs
-): Promise<string>;
-export async function executeTool(
-  toolName: "run_command",
-  args: RunCommandArgs
-): Promise<string>;
-export async function executeTool(
-  toolName: ToolName,
-  args: ToolRegistry[ToolName]
-): Promise<string> {
-  switch (toolName) {
-    case "read_file": {
-      const readArgs = args as ReadFileArgs;
-      try {
-        const filePath = readArgs.file_path;
-        const resolvedPath = path.isAbsolute(filePath)
-          ? filePath
-          : path.resolve(process.cwd(), filePath);
-
-        const content = await fs.readFile(resolvedPath, "utf-8");
-        return content;
-      } catch (error) {
-        return `Error reading file: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`;
+export const runCommandTool = defineTool<RunCommandArgs>({
+  name: "run_command",
+  description:
+    "Execute a shell command in the terminal. Returns the command output (stdout and stderr). Use this to run tests, install dependencies, build projects, or execute any CLI commands. Commands are executed in the specified working directory, or the current directory if not specified. Set run_in_background for dev servers, watchers and other commands that do not exit; the call then returns a process id right away.",
+  parameters: {
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        description:
+          "The shell command to execute. Can be any valid bash/shell command.",
+      },
+      working_directory: {
+        type: "string",
+        description:
+          "Optional working directory to execute the command in. Defaults to current directory if not provided.",
+      },
+      timeout: {
+        type: "number",
+        description:
+          "Timeout in milliseconds after which the command is stopped; must be positive. Defaults to 300000 (5 minutes); values above the configured maximum are capped.",
+      },
+      run_in_background: {
+        type: "boolean",
+        description:
+          "Start the command without waiting for it to finish. Check its output with read_output and stop it with kill_process. Defaults to false.",
+      },
+    },
+    required: ["command"],
+  },
+  readOnly: false,
+  validate: (args) =>
+    args.timeout !== undefined && args.timeout <= 0
+      ? "timeout must be a positive number of milliseconds"
+      : undefined,
+  execute: async (runArgs, context) => {
+    try {
+      const settings = loadSettings().tools;
+      const persistentShell =
+        settings?.persistentShell === true && isShellSessionSupported();
+      const workingDir = runArgs.working_directory
+        ? resolveWorkspacePath(runArgs.working_directory)
+        : (persistentShell && getShellSessionCwd()) || process.cwd();
+
+      if (runArgs.run_in_background) {
+        const started = startBackgroundProcess(runArgs.command, workingDir);
+        return `Started background process ${started.id} (pid ${
+          started.pid ?? "unknown"
+        }): ${runArgs.command}\nUse read_output with process_id "${
+          started.id
+        }" to see its output and kill_process to stop it.`;
       }
-    }
-    case "list_directory": {
-      const listArgs = args as ListDirectoryArgs;
-      try {
-        const dirPath = listArgs.directory_path || ".";
-        const resolvedPath = path.isAbsolute(dirPath)
-          ? dirPath
-          : path.resolve(process.cwd(), dirPath);
-
-        const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
-        const items = await Promise.all(
-          entries.map(async (entry) => {
-            const name = entry.name;
-            const type = entry.isDirectory() ? "directory" : "file";
-            let size = "";
-            if (entry.isFile()) {
-              try {
-                const stats = await fs.stat(path.join(resolvedPath, name));
-                size = ` (${stats.size} bytes)`;
-              } catch {
-                // Ignore stat errors
-              }
-            }
-            return `${type === "directory" ? "📁" : "📄"} ${name}${size}`;
+
+      const maxTimeout = getPositiveSetting(
+        settings?.maxCommandTimeoutMs,
+        DEFAULT_MAX_COMMAND_TIMEOUT_MS
+      );
+      const timeoutMs = Math.min(
+        runArgs.timeout ??
+          getPositiveSetting(
+            settings?.commandTimeoutMs,
+            DEFAULT_COMMAND_TIMEOUT_MS
+          ),
+        maxTimeout
+      );
+
+      const result = persistentShell
+        ? await runInShellSession(runArgs.command, {
+            cwd: runArgs.working_directory ? workingDir : undefined,
+            timeoutMs,
+            onOutput: context.onOutput,
           })
-        );
-        return items.join("\n");
-      } catch (error) {
-        return `Error listing directory: ${
-          error instanceof Error ? error.message : "Unknown error"
+        : await runShellCommand(runArgs.command, {
+            cwd: workingDir,
+            timeoutMs,
+            onOutput: context.onOutput,
+          });
+      const output = result.output.trim();
+
+      if (result.timedOut) {
+        return `Command timed out after ${timeoutMs / 1000}s and was stopped${
+          output ? `:\n${output}` : ""
         }`;
       }
-    }
-    case "edit_file": {
-      const editArgs = args as EditFileArgs;
-      try {
-        const filePath = editArgs.file_path;
-        const resolvedPath = path.isAbsolute(filePath)
-          ? filePath
-          : path.resolve(process.cwd(), filePath);
-
-        if (editArgs.old_str === "") {
-          // Creating a new file
-          await fs.writeFile(resolvedPath, editArgs.new_str, "utf-8");
-          return `File created successfully: ${filePath}`;
-        } else {
-          // Editing an existing file
-          const content = await fs.readFile(resolvedPath, "utf-8");
-          if (!content.includes(editArgs.old_str)) {
-            return `Error: The specified old_str was not found in the file. Make sure to include the exact string including whitespace and newlines.`;
-          }
-          const newContent = content.replace(
-            editArgs.old_str,
-            editArgs.new_str
-          );
-          await fs.writeFile(resolvedPath, newContent, "utf-8");
-          return `File edited successfully: ${filePath}`;
-        }
-      } catch (error) {
-        return `Error editing file: ${
-          error instanceof Error ? error.message : "Unknown error"
+      if (result.interrupted) {
+        return `Command was interrupted by the user${
+          output ? `:\n${output}` : ""
         }`;
       }
+      if (result.exitCode !== 0) {
+        return `Command failed with exit code ${result.exitCode}:\n${output}`;
+      }
+
+      // If there's no output but command succeeded, indicate success
+      if (!output) {
+        return "Command executed successfully (no output)";
+      }
+
+      return output;
+    } catch (error) {
+      return `Error executing command: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
     }
-    case "run_command": {
-      const runArgs = args as RunCommandArgs;
-      try {
-        const workingDir = runArgs.working_directory
-          ? path.isAbsolute(runArgs.working_directory)
-            ? runArgs.working_directory
-            : path.resolve(process.cwd(), runArgs.working_directory)
-          : process.cwd();
-
-        const { stdout, stderr } = await execAsync(runArgs.command, {
-          cwd: workingDir,
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-          timeout: 300000, // 5 minute timeout
-        });
-
-        let output = "";
-        if (stdout) {
-          output += stdout;
-        }
-        if (stderr) {
-          output += stderr;
-        }
+  },
+});
 
-        // If there's no output but command succeeded, indicate success
-        if (!output.trim()) {
-          return "Command executed successfully (no output)";
-        }
+export const readOutputTool = defineTool<ReadOutputArgs>({
+  name: "read_output",
+  description:
+    "Read the output a background process (started with run_command and run_in_background) has produced since the last read_output call, and whether it is still running.",
+  parameters: {
+    type: "object",
+    properties: {
+      process_id: {
+        type: "string",
+        description: 'The id returned by run_command, e.g. "bg_1".',
+      },
+    },
+    required: ["process_id"],
+  },
+  readOnly: true,
+  execute: async (args) => {
+    const backgroundProcess = getBackgroundProcess(args.process_id);
+    if (!backgroundProcess) {
+      return `Error: No background process with id ${args.process_id}`;
+    }
+    const output = readProcessOutput(backgroundProcess);
+    return `Process ${backgroundProcess.id} is ${describeStatus(
+      backgroundProcess
+    )}.\n${output.trim() ? output.trimEnd() : "(no new output)"}`;
+  },
+});
 
-        return output.trim();
-      } catch (error: any) {
-        // execAsync throws an error with stdout/stderr in the error object
-        if (error.stdout || error.stderr) {
-          let output = "";
-          if (error.stdout) {
-            output += error.stdout;
-          }
-          if (error.stderr) {
-            output += error.stderr;
-          }
-          // Include exit code if available
-          if (error.code !== undefined) {
-            return `Command failed with exit code ${error.code}:\n${output.trim()}`;
-          }
-          return output.trim() || `Command failed: ${error.message}`;
-        }
-        return `Error executing command: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`;
-      }
+export const killProcessTool = defineTool<KillProcessArgs>({
+  name: "kill_process",
+  description:
+    "Stop a background process started with run_command and run_in_background, together with any processes it started.",
+  parameters: {
+    type: "object",
+    properties: {
+      process_id: {
+        type: "string",
+        description: 'The id returned by run_command, e.g. "bg_1".',
+      },
+    },
+    required: ["process_id"],
+  },
+  readOnly: false,
+  execute: async (args) => {
+    const backgroundProcess = getBackgroundProcess(args.process_id);
+    if (!backgroundProcess) {
+      return `Error: No background process with id ${args.process_id}`;
     }
-    default: {
-      const _exhaustive: never = toolName;
-      return `Unknown tool: ${toolName}`;
+    if (backgroundProcess.status !== "running") {
+      return `Process ${backgroundProcess.id} already ${describeStatus(
+        backgroundProcess
+      )}`;
     }
+    await killBackgroundProcess(backgroundProcess);
+    return `Killed process ${backgroundProcess.id}: ${backgroundProcess.command}`;
+  },
+});
+
+export const grepTool = defineTool<GrepArgs>({
+  name: "grep",
+  description:
+    "Search file contents with a regular expression. Skips files ignored by .gitignore and binary files. Use this instead of running grep through run_command.",
+  parameters: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description:
+          "The regular expression to search for (JavaScript syntax).",
+      },
+      path: {
+        type: "string",
+        description:
+          "File or directory to search in. Defaults to current directory if not provided.",
+      },
+      glob: {
+        type: "string",
+        description:
+          'Only search files matching this glob, e.g. "*.ts" or "src/**/*.{js,jsx}".',
+      },
+      type: {
+        type: "string",
+        description: `Only search files of this type. One of: ${Object.keys(
+          FILE_TYPES
+        ).join(", ")}.`,
+      },
+      case_insensitive: {
+        type: "boolean",
+        description: "Match case-insensitively. Defaults to false.",
+      },
+      context: {
+        type: "number",
+        description:
+          'Lines of context to show around each match in "content" mode. Defaults to 0.',
+      },
+      output_mode: {
+        type: "string",
+        enum: ["content", "files_with_matches", "count"],
+        description:
+          '"content" shows matching lines as file:line:text, "files_with_matches" lists matching files, "count" shows the number of matches per file. Defaults to "files_with_matches".',
+      },
+      max_results: {
+        type: "number",
+        description: "Maximum number of output lines. Defaults to 200.",
+      },
+    },
+    required: ["pattern"],
+  },
+  readOnly: true,
+  execute: async (args) => {
+    try {
+      return await grepFiles(args);
+    } catch (error) {
+      return `Error searching files: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
+
+export const globTool = defineTool<GlobArgs>({
+  name: "glob",
+  description:
+    'Find files by name with a glob pattern such as "**/*.ts" or "src/**/test_*.py". Skips files ignored by .gitignore. Returns matching paths, most recently modified first.',
+  parameters: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description:
+          "The glob pattern to match against paths relative to the search directory. Supports *, **, ? and {a,b}.",
+      },
+      path: {
+        type: "string",
+        description:
+          "The directory to search in. Defaults to current directory if not provided.",
+      },
+    },
+    required: ["pattern"],
+  },
+  readOnly: true,
+  execute: async (args) => {
+    try {
+      return await globFiles(args);
+    } catch (error) {
+      return `Error finding files: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  },
+});
+
+export const writePlanTool = defineTool<WritePlanArgs>({
+  name: "write_plan",
+  description:
+    "Record the implementation plan as a list of steps for the user to review and approve. Call it in plan mode once the plan is ready and again with the complete list whenever the plan is revised. Each step should be one concrete change, described in a sentence. Steps that are unchanged keep their approval and progress.",
+  parameters: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: 'A short title for the plan, e.g. "Add CSV export".',
+      },
+      steps: {
+        type: "array",
+        items: { type: "string" },
+        description: "The steps in the order they should be carried out.",
+      },
+    },
+    required: ["steps"],
+  },
+  readOnly: true,
+  validate: (args) =>
+    args.steps.length === 0
+      ? "steps must contain at least one step"
+      : args.steps.some((step) => !step.trim())
+      ? "steps must not be empty"
+      : undefined,
+  execute: async (args, context) => {
+    const previous = getPlan();
+    const plan = createPlan(
+      args.title?.trim() || previous?.title || "Plan",
+      args.steps.map((step) => step.trim()),
+      previous
+    );
+    setPlan(plan);
+    context.onPlanChange?.(plan);
+    return `Plan recorded. The user will review it and approve some or all of the steps.\n\n${formatPlan(
+      plan
+    )}`;
+  },
+});
+
+export const updatePlanStepTool = defineTool<UpdatePlanStepArgs>({
+  name: "update_plan_step",
+  description:
+    "Report progress on a step of the approved plan: mark it in_progress when you start working on it, and completed or skipped (with a note saying why) when you are done with it.",
+  parameters: {
+    type: "object",
+    properties: {
+      step: {
+        type: "integer",
+        description: "The step number, starting at 1.",
+      },
+      status: {
+        type: "string",
+        enum: ["in_progress", "completed", "skipped"],
+      },
+      note: {
+        type: "string",
+        description: "A short note for the user, e.g. why a step was skipped.",
+      },
+    },
+    required: ["step", "status"],
+  },
+  readOnly: true,
+  execute: async (args, context) => {
+    const plan = getPlan();
+    if (!plan) {
+      return "Error: There is no plan. Use write_plan in plan mode to create one.";
+    }
+    const step = plan.steps[args.step - 1];
+    if (!step) {
+      return `Error: Step ${args.step} does not exist; the plan has ${plan.steps.length} steps`;
+    }
+    if (!step.approved) {
+      return `Error: Step ${args.step} has not been approved by the user. Do not work on it; ask the user to approve it with /approve ${args.step}.`;
+    }
+    step.status = args.status;
+    step.note = args.note?.trim() || undefined;
+    context.onPlanChange?.(plan, args.step);
+    const remaining = plan.steps.filter(
+      (candidate) =>
+        candidate.approved &&
+        (candidate.status === "pending" || candidate.status === "in_progress")
+    ).length;
+    return `Step ${args.step} is now ${args.status.replace("_", " ")}. ${
+      remaining === 0
+        ? "All approved steps are done."
+        : `${remaining} approved steps remain.`
+    }`;
+  },
+});
+
+export const todoWriteTool = defineTool<TodoWriteArgs>({
+  name: "todo_write",
+  description:
+    "Keep a todo list for the current task so you do not lose track of what is left. Use it for tasks with three or more steps or when the user gives you several things to do; skip it for quick, single-step requests. Each call replaces the whole list. Mark an item in_progress before you start it (only one at a time) and completed as soon as it is done, and add items you discover along the way.",
+  parameters: {
+    type: "object",
+    properties: {
+      todos: {
+        type: "array",
+        description: "The complete, updated list.",
+        items: {
+          type: "object",
+          properties: {
+            content: {
+              type: "string",
+              description: 'What to do, e.g. "Add tests for the parser".',
+            },
+            status: {
+              type: "string",
+              enum: ["pending", "in_progress", "completed"],
+            },
+          },
+          required: ["content", "status"],
+        },
+      },
+    },
+    required: ["todos"],
+  },
+  readOnly: true,
+  validate: (args) =>
+    args.todos.some((todo) => !todo.content.trim())
+      ? "todo content must not be empty"
+      : args.todos.filter((todo) => todo.status === "in_progress").length > 1
+      ? "only one todo can be in_progress at a time"
+      : undefined,
+  execute: async (args, context) => {
+    const todos = args.todos.map((todo) => ({
+      content: todo.content.trim(),
+      status: todo.status,
+    }));
+    setTodos(todos);
+    context.onTodosChange?.(todos);
+    if (todos.length === 0) {
+      return "Todo list cleared.";
+    }
+    const completed = todos.filter(
+      (todo) => todo.status === "completed"
+    ).length;
+    return `Todo list updated (${completed}/${
+      todos.length
+    } completed):\n${formatTodos(todos)}`;
+  },
+});
+
+// Stored without their argument types: a registered tool is only ever run
+// with the arguments validateToolArguments returns for it
+type RegisteredTool = ToolDefinition<never>;
+
+const registry = new Map<string, RegisteredTool>();
+
+/**
+ * Adds a tool to the registry. Everything the agent does with tools (the
+ * schemas sent to the model, plan mode filtering, argument validation and
+ * dispatch) is driven by the registered definitions.
+ */
+export function registerTool(definition: RegisteredTool): void {
+  registry.set(definition.name, definition);
+}
+
+export function getTool(name: string): RegisteredTool | undefined {
+  return registry.get(name);
+}
+
+export function getTools(
+  options: { readOnly?: boolean } = {}
+): RegisteredTool[] {
+  return [...registry.values()].filter(
+    (definition) => !options.readOnly || definition.readOnly
+  );
+}
+
+export function toToolSchema<Args>(definition: ToolDefinition<Args>): Tool {
+  return {
+    type: "function",
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.parameters,
+    },
+  };
+}
+
+/**
+ * Validates tool arguments against the tool's schema and its own checks.
+ * Optional arguments sent as null are treated as omitted.
+ */
+export function validateToolArguments<Args>(
+  definition: ToolDefinition<Args>,
+  args: unknown
+): ParsedArguments<Args> {
+  if (typeof args === "object" && args !== null && !Array.isArray(args)) {
+    const required = definition.parameters.required ?? [];
+    args = Object.fromEntries(
+      Object.entries(args).filter(
+        ([key, value]) => value !== null || required.includes(key)
+      )
+    );
+  }
+
+  const errors = validateSchema(definition.parameters, args);
+  // The schema describes Args, so arguments that pass it have that shape
+  const customError =
+    errors.length === 0 && definition.validate?.(args as Args);
+  if (customError) {
+    errors.push(customError);
   }
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      error: `Invalid arguments for ${definition.name}: ${errors.join("; ")}`,
+    };
+  }
+  return { ok: true, args: args as Args };
+}
+
+export function parseToolArguments<Args>(
+  definition: ToolDefinition<Args>,
+  argumentsJson: string
+): ParsedArguments<Args> {
+  let args: unknown;
+  try {
+    args = argumentsJson.trim() === "" ? {} : JSON.parse(argumentsJson);
+  } catch (error) {
+    return {
+      ok: false,
+      error: `Invalid JSON arguments for ${definition.name}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+  return validateToolArguments(definition, args);
+}
+
+for (const definition of [
+  readFileTool,
+  listDirectoryTool,
+  grepTool,
+  globTool,
+  editFileTool,
+  multiEditTool,
+  runCommandTool,
+  readOutputTool,
+  killProcessTool,
+  writePlanTool,
+  updatePlanStepTool,
+  todoWriteTool,
+]) {
+  registerTool(definition);
 }
@@ -0,0 +1,144 @@
+import { loadSettings } from "./settings.js";
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+// Mistral's list prices; models not listed here can be priced with
+// inputPrice/outputPrice in the `models` section of settings.json
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "mistral-small-latest": { input: 0.1, output: 0.3 },
+  "mistral-medium-latest": { input: 0.4, output: 2 },
+  "mistral-large-latest": { input: 2, output: 6 },
+  "codestral-latest": { input: 0.3, output: 0.9 },
+  "devstral-small-latest": { input: 0.1, output: 0.3 },
+  "devstral-medium-latest": { input: 0.4, output: 2 },
+};
+
+export type ModelUsage = TokenUsage & { requests: number };
+
+export type UsageStore = {
+  byModel: Map<string, ModelUsage>;
+  // Estimated cost in USD after which the agent stops calling the model
+  budgetUsd?: number;
+};
+
+export function createUsageStore(
+  options: { budgetUsd?: number } = {}
+): UsageStore {
+  return { byModel: new Map(), budgetUsd: options.budgetUsd };
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+}
+
+export function recordUsage(
+  store: UsageStore,
+  model: string,
+  usage: TokenUsage
+): void {
+  const entry = store.byModel.get(model) ?? { ...emptyUsage(), requests: 0 };
+  addUsage(entry, usage);
+  entry.requests++;
+  store.byModel.set(model, entry);
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const configured = loadSettings().models?.[model];
+  if (
+    configured?.inputPrice !== undefined &&
+    configured.outputPrice !== undefined
+  ) {
+    return { input: configured.inputPrice, output: configured.outputPrice };
+  }
+  return MODEL_PRICES[model];
+}
+
+/**
+ * Estimated cost in USD, or undefined for a model without a known price.
+ */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage
+): number | undefined {
+  const price = getModelPrice(model);
+  if (!price) {
+    return undefined;
+  }
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function getTotalUsage(store: UsageStore): TokenUsage {
+  const total = emptyUsage();
+  for (const usage of store.byModel.values()) {
+    addUsage(total, usage);
+  }
+  return total;
+}
+
+// Models without a price count as free, so the estimate is a lower bound
+export function getTotalCost(store: UsageStore): number {
+  let cost = 0;
+  for (const [model, usage] of store.byModel) {
+    cost += estimateCost(model, usage) ?? 0;
+  }
+  return cost;
+}
+
+export function isOverBudget(store: UsageStore): boolean {
+  return (
+    store.budgetUsd !== undefined && getTotalCost(store) >= store.budgetUsd
+  );
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+/**
+ * One line per model plus a total, for /cost and the end-of-session summary.
+ */
+export function formatUsageSummary(store: UsageStore): string[] {
+  const lines: string[] = [];
+  for (const [model, usage] of store.byModel) {
+    const cost = estimateCost(model, usage);
+    lines.push(
+      `${model}: ${formatTokens(usage.promptTokens)} input, ${formatTokens(
+        usage.completionTokens
+      )} output tokens in ${usage.requests} request${
+        usage.requests === 1 ? "" : "s"
+      } (${cost === undefined ? "no price known" : formatCost(cost)})`
+    );
+  }
+  const total = getTotalUsage(store);
+  lines.push(
+    `Total: ${formatTokens(
+      total.promptTokens + total.completionTokens
+    )} tokens, ~${formatCost(getTotalCost(store))}${
+      store.budgetUsd !== undefined
+        ? ` of a ${formatCost(store.budgetUsd)} budget`
+        : ""
+    }`
+  );
+  return lines;
+}
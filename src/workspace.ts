@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import { matchesGlob } from "./glob.js";
+import { loadSettings } from "./settings.js";
+
+export const DEFAULT_DENIED_FILES = [".env", ".env.*", "*.pem", "*.key"];
+
+type Workspace = {
+  roots: string[];
+  deniedFiles: string[];
+};
+
+let workspace: Workspace | null = null;
+
+export function findGitRoot(cwd: string = process.cwd()): string | null {
+  let directory = path.resolve(cwd);
+  while (true) {
+    if (fs.existsSync(path.join(directory, ".git"))) {
+      return directory;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+function realpathOrSelf(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+// Resolves symlinks in the longest existing prefix so that paths which do
+// not exist yet (files about to be created) are still checked
+function realpathNearest(filePath: string): string {
+  const missing: string[] = [];
+  let current = filePath;
+  while (true) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return filePath;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+export function isWithin(filePath: string, root: string): boolean {
+  const relative = path.relative(root, filePath);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(".." + path.sep) &&
+      !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Sets the directories the file tools may touch: the git root (or the
+ * current directory outside a repository) plus any extra directories from
+ * `--add-dir` or the user's `workspace.additionalDirectories` setting.
+ */
+export function configureWorkspace(
+  options: { additionalDirectories?: string[] } = {}
+): void {
+  const settings = loadSettings();
+  const cwd = process.cwd();
+  const directories = [
+    findGitRoot(cwd) ?? cwd,
+    ...(settings.workspace?.additionalDirectories ?? []),
+    ...(options.additionalDirectories ?? []),
+  ];
+  workspace = {
+    roots: [
+      ...new Set(
+        directories.map((directory) =>
+          realpathOrSelf(path.resolve(cwd, directory))
+        )
+      ),
+    ],
+    // Settings can deny more files, never fewer than the defaults
+    deniedFiles: [
+      ...new Set([
+        ...DEFAULT_DENIED_FILES,
+        ...(settings.workspace?.deniedFiles ?? []),
+      ]),
+    ],
+  };
+}
+
+function getWorkspace(): Workspace {
+  if (!workspace) {
+    configureWorkspace();
+  }
+  return workspace as Workspace;
+}
+
+export function getWorkspaceRoots(): string[] {
+  return getWorkspace().roots;
+}
+
+/**
+ * Resolves a path given to a file tool and throws when it points outside the
+ * workspace (directly, via `..` or through a symlink) or at a denied file.
+ */
+export function resolveWorkspacePath(inputPath: string): string {
+  const { roots, deniedFiles } = getWorkspace();
+  const resolvedPath = path.resolve(process.cwd(), inputPath);
+  const realPath = realpathNearest(resolvedPath);
+
+  const root = roots.find((candidate) => isWithin(realPath, candidate));
+  if (!root) {
+    throw new Error(
+      `Access denied: ${inputPath} is outside the workspace (${roots.join(
+        ", "
+      )}). Only files inside the workspace can be accessed.`
+    );
+  }
+
+  const candidates = [path.relative(root, realPath)];
+  const lexicalRoot = roots.find((candidate) =>
+    isWithin(resolvedPath, candidate)
+  );
+  if (lexicalRoot) {
+    candidates.push(path.relative(lexicalRoot, resolvedPath));
+  }
+  for (const relativePath of candidates) {
+    const pattern = deniedFiles.find((denied) =>
+      matchesGlob(relativePath, denied)
+    );
+    if (pattern) {
+      throw new Error(
+        `Access denied: ${inputPath} matches the denied file pattern "${pattern}"`
+      );
+    }
+  }
+
+  return resolvedPath;
+}
+
+/**
+ * Whether a path found while walking the workspace matches one of the denied
+ * file patterns. Cheaper than resolveWorkspacePath for bulk checks because
+ * it does not resolve symlinks.
+ */
+export function isDeniedFile(resolvedPath: string): boolean {
+  const { roots, deniedFiles } = getWorkspace();
+  const root = roots.find((candidate) => isWithin(resolvedPath, candidate));
+  const relativePath = path.relative(root ?? process.cwd(), resolvedPath);
+  return deniedFiles.some((denied) => matchesGlob(relativePath, denied));
+}